@@ -1,59 +1,504 @@
 import {
 	App,
+	Notice,
 	Plugin,
 	PluginSettingTab,
 	Setting,
 	TFile,
 	TFolder,
-	debounce,
 	MarkdownView,
+	Menu,
 	TAbstractFile,
+	normalizePath,
+	moment,
 } from "obsidian";
-import * as JSYAML from "js-yaml";
-import * as YAML from 'yaml';
+import {
+	SchemaViolation,
+	TemplateSchema,
+	isEmptyValue,
+	isEnforcedProperty,
+	mergeTemplateSchemas,
+	parseTemplateSchema,
+	validateProperties,
+} from "./src/schema";
+import { NoteReport, NoteReportModal } from "./src/noteReportModal";
+import {
+	FrontmatterChange,
+	applyFrontmatterDiff,
+	hasFrontmatterChanges,
+	formatFrontmatterValue,
+	isSameValue,
+} from "./src/changes";
+import {
+	FrontmatterJournal,
+	JournalBatch,
+	JournalTrigger,
+	planUndo,
+} from "./src/journal";
+import { JournalBatchModal } from "./src/journalBatchModal";
+import { parseFrontmatter, updateFrontmatter } from "./src/frontmatter";
+import { BulkProgressModal, BulkSummary } from "./src/bulkProgressModal";
+import {
+	FileSuggestModal,
+	FolderSuggestModal,
+	TemplateSuggestModal,
+} from "./src/suggestModals";
+import { ChoiceModal } from "./src/choiceModal";
+import {
+	PlaceholderContext,
+	PromptHandler,
+	hasPlaceholders,
+	resolvePlaceholders,
+} from "./src/placeholders";
+import { PromptModal } from "./src/promptModal";
+import {
+	AUDIT_VIEW_TYPE,
+	MetaTagAudit,
+	MetaTagAuditView,
+	TemplateAudit,
+} from "./src/auditView";
+import {
+	PropertyMigration,
+	migrateProperties,
+	parseTemplateMigrations,
+} from "./src/migrations";
+import { TemplateSyncPreviewModal } from "./src/templateSyncPreviewModal";
+import { MetaTagsApi, MetaTagsEvents, createMetaTagsApi } from "./src/api";
+import { SyncQueue } from "./src/syncQueue";
+import { MetaTagIndex } from "./src/metaTagIndex";
+import {
+	BUNDLE_VERSION,
+	BundleFormat,
+	BundleParseError,
+	BundleSettings,
+	TemplateBundle,
+	TemplateImport,
+	parseBundle,
+	planTemplateImport,
+	serializeBundle,
+} from "./src/templateBundle";
+import { ExportBundleModal } from "./src/exportBundleModal";
+import { ImportBundleModal } from "./src/importBundleModal";
+import {
+	BodySection,
+	getChangedSectionHeadings,
+	getNoteBody,
+	getTemplateSections,
+	insertMissingSections,
+	isSameHeading,
+	setNoteBody,
+	updateUntouchedSections,
+} from "./src/sections";
+import {
+	AUTO_APPLY_RULE_TYPES,
+	AutoApplyRule,
+	AutoApplyRuleType,
+	getAutoApplyMetaTags,
+} from "./src/autoApplyRules";
+import {
+	MergedTemplates,
+	PropertyConflict,
+	TemplateSource,
+	mergeTemplateSources,
+} from "./src/merge";
+import {
+	applyTemplateDefaults,
+	getPropertyChanges,
+	removeEmptyTemplateProperties,
+	syncTemplateProperties,
+} from "./src/sync";
+import {
+	META_TAG_PROPERTY,
+	META_TAG_SOURCES,
+	MetaTagSource,
+	getPropertyList,
+	replaceInlineTag,
+	stripHash,
+} from "./src/tagSources";
 
 interface MetaTagsSettings {
 	tagBase: string;
+	metaTagSource: MetaTagSource;
 	deleteEmptyMetatagProperties: boolean;
 	templateFolderPath: string;
+	previewTemplateChanges: boolean;
+	journalLimit: number;
+	// MetaTag names, highest priority first; unlisted templates follow by name
+	templatePriority: string[];
+	inheritFolderTemplates: boolean;
+	autoApplyRules: AutoApplyRule[];
+	// Template frontmatter keys that configure the template and never reach notes
+	templateOnlyKeys: string[];
 }
 
 const DEFAULT_SETTINGS: MetaTagsSettings = {
 	tagBase: "mt",
+	// Inline tags have always counted as MetaTags
+	metaTagSource: "inline",
 	deleteEmptyMetatagProperties: false,
 	templateFolderPath: "",
+	previewTemplateChanges: false,
+	journalLimit: 50,
+	templatePriority: [],
+	inheritFolderTemplates: false,
+	autoApplyRules: [],
+	templateOnlyKeys: [],
 };
 
+// Template frontmatter keys that configure the template itself and are never copied into notes
+const TEMPLATE_DIRECTIVE_KEYS = ["extends", "schema", "migrations", "sections"];
+
+// Reserved namespace for template settings, e.g. `metatag.icon`; such keys are never copied into notes
+const TEMPLATE_DIRECTIVE_PREFIX = "metatag.";
+
+// Obsidian's own properties, which notes may carry regardless of their templates
+const STANDARD_NOTE_KEYS = ["tags", "aliases", "alias", "cssclasses", "cssclass"];
+
+// Notes written between yields when applying many changes at once
+const SYNC_BATCH_SIZE = 50;
+
+type TemplateDataSource = (templateFile: TFile) => Promise<any>;
+
+interface TemplateSync {
+	name: string;
+	rank: number;
+	addedProps: string[];
+	removedProps: string[];
+	data: any;
+	migrations: PropertyMigration[];
+	schema: TemplateSchema;
+}
+
+// The part of the core search view's internals that lists its results
+interface SearchViewInternals {
+	dom?: { resultDomLookup?: Map<TAbstractFile, unknown> };
+}
+
 export default class MetaTagsPlugin extends Plugin {
 	settings: MetaTagsSettings;
 	fileTagCache: Map<string, string[]> = new Map();
 	templateCache: Map<string, any> = new Map();
+	index: MetaTagIndex = new MetaTagIndex();
+	// Body sections of templates with a `sections` directive, by template path
+	templateSectionCache: Map<string, BodySection[]> = new Map();
+	reportedTemplateCycles: Set<string> = new Set();
+	// Locked property edits already reported, by note path
+	lockWarnings: Map<string, string> = new Map();
+	// New notes waiting for their metadata before auto-apply rules run
+	pendingAutoApply: Set<string> = new Set();
+	journal: FrontmatterJournal;
+	syncQueue: SyncQueue;
+	events: MetaTagsEvents = new MetaTagsEvents();
+	// Public API for other plugins and scripts, see src/api.ts
+	api: MetaTagsApi;
 
 	async onload() {
+		this.api = createMetaTagsApi(this);
 		await this.loadSettings();
 
+		this.journal = new FrontmatterJournal(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/journal.json`),
+			this.settings.journalLimit
+		);
+		await this.journal.load();
+
 		this.addSettingTab(new MetaTagsSettingTab(this.app, this));
 
+		this.registerView(AUDIT_VIEW_TYPE, (leaf) => new MetaTagAuditView(leaf, this));
+
 		this.app.workspace.onLayoutReady(() => {
 			this.initializeFileTagCache();
 			this.initializeTemplateCache();
+
+			// Registered here so files loaded at startup are not treated as new
+			this.registerEvent(
+				this.app.vault.on("create", (file) => this.onFileCreated(file))
+			);
+		});
+
+		// Each file is handled once its events settle, one file at a time
+		this.syncQueue = new SyncQueue(async (path) => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) return;
+
+			if (this.pendingAutoApply.delete(file.path)) {
+				await this.applyAutoApplyRules(file);
+			}
+			await this.onMetadataChanged(file);
+		}, { delay: 500 });
+
+		this.addCommand({
+			id: "open-audit-view",
+			name: "Open MetaTag audit",
+			callback: () => this.activateAuditView(),
+		});
+
+		this.addCommand({
+			id: "list-schema-violations",
+			name: "List MetaTag schema violations",
+			callback: async () => {
+				const results = await this.findSchemaViolations();
+				new NoteReportModal(
+					this.app,
+					"MetaTag schema violations",
+					"All notes match their template schemas.",
+					results.map(({ file, violations }) => ({
+						file,
+						messages: violations.map((violation) => violation.message),
+					}))
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "list-metatag-conflicts",
+			name: "List conflicting MetaTag properties",
+			callback: async () => {
+				const reports = await this.findMetaTagConflicts();
+				new NoteReportModal(
+					this.app,
+					"MetaTag conflicts",
+					"No note has MetaTags with conflicting defaults.",
+					reports
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "preview-template-sync",
+			name: "Preview sync of the current template",
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !(await this.isTemplateFile(file))) {
+					new Notice("MetaTags: open a MetaTag template to preview its sync");
+					return;
+				}
+
+				const metaTagName = this.getTemplateNameFromPath(file.path);
+				const changes = await this.planFullTemplateSync(file);
+				new TemplateSyncPreviewModal(
+					this.app,
+					`Sync template "${metaTagName}"`,
+					changes,
+					async (selected) => {
+						const files = await this.applyFrontmatterChanges(
+							selected,
+							"template-sync",
+							`Synced template "${metaTagName}"`
+						);
+						this.reportMigrationProblems(selected);
+						this.events.trigger("template-synced", metaTagName, files);
+						new Notice(`MetaTags: updated ${selected.length} note(s)`);
+					}
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "undo-last-change",
+			name: "Undo last automatic MetaTag change",
+			callback: async () => {
+				const batch = this.journal.getLastBatch();
+				if (!batch) {
+					new Notice("MetaTags: nothing to undo");
+					return;
+				}
+				await this.undoJournalBatch(batch);
+			},
+		});
+
+		this.addCommand({
+			id: "undo-change",
+			name: "Undo a MetaTag change…",
+			callback: () => {
+				if (this.journal.batches.length === 0) {
+					new Notice("MetaTags: nothing to undo");
+					return;
+				}
+				new JournalBatchModal(this.app, this.journal.batches, (batch) =>
+					this.undoJournalBatch(batch)
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "add-metatag",
+			name: "Add MetaTag to current note…",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (checking) return true;
+
+				const noteMetaTags = this.getNoteMetaTagNames(file);
+				this.openTemplatePicker(
+					this.getTemplateNames().filter((name) => !noteMetaTags.includes(name)),
+					(name) => this.addMetaTagToNote(file, name)
+				);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "remove-metatag",
+			name: "Remove MetaTag from current note…",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+
+				const noteMetaTags = this.getNoteMetaTagNames(file);
+				if (noteMetaTags.length === 0) return false;
+				if (checking) return true;
+
+				this.openTemplatePicker(
+					noteMetaTags,
+					(name) => this.removeMetaTagFromNote(file, name),
+					"Choose a MetaTag to remove"
+				);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "add-metatag-to-folder",
+			name: "Add MetaTag to all notes in a folder…",
+			callback: () => {
+				new FolderSuggestModal(this.app, (folder) => {
+					this.openTemplatePicker(this.getTemplateNames(), (name) =>
+						this.bulkAddMetaTag(this.getMarkdownFilesInFolder(folder), name)
+					);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: "add-metatag-to-search-results",
+			name: "Add MetaTag to all current search results…",
+			callback: () => {
+				const files = this.getSearchResultFiles();
+				if (!files) return;
+				if (files.length === 0) {
+					new Notice("MetaTags: run a search first; no search results found");
+					return;
+				}
+				this.openTemplatePicker(this.getTemplateNames(), (name) =>
+					this.bulkAddMetaTag(files, name)
+				);
+			},
+		});
+
+		this.addCommand({
+			id: "resync-metatag",
+			name: "Re-sync notes with a MetaTag to its template…",
+			callback: () => {
+				this.openTemplatePicker(this.getTemplateNames(), (name) =>
+					this.bulkResync(name)
+				);
+			},
+		});
+
+		this.addCommand({
+			id: "resync-all-metatags",
+			name: "Re-sync all MetaTag notes to their templates",
+			callback: () => this.bulkResync(),
 		});
 
-		console.log(this.fileTagCache);
+		this.addCommand({
+			id: "apply-auto-apply-rules",
+			name: "Apply MetaTag rules to all notes",
+			callback: () => this.bulkApplyAutoApplyRules(),
+		});
+
+		this.addCommand({
+			id: "migrate-metatag-source",
+			name: "Move MetaTags of all notes to the configured source",
+			callback: () => this.migrateMetaTagSource(),
+		});
+
+		this.addCommand({
+			id: "export-template-bundle",
+			name: "Export templates to a bundle",
+			callback: () =>
+				new ExportBundleModal(this.app, this.getTemplateNames(), (names, format, path) =>
+					this.exportTemplateBundle(names, format, path)
+				).open(),
+		});
+
+		this.addCommand({
+			id: "import-template-bundle",
+			name: "Import templates from a bundle",
+			callback: () =>
+				new FileSuggestModal(
+					this.app,
+					["json", "yaml", "yml"],
+					(file) => this.importTemplateBundle(file),
+					"Choose a template bundle"
+				).open(),
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				const notes = files.flatMap((file) =>
+					file instanceof TFolder
+						? this.getMarkdownFilesInFolder(file)
+						: file instanceof TFile && file.extension === "md"
+						? [file]
+						: []
+				);
+				if (notes.length === 0) return;
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Add MetaTag…")
+						.setIcon("tags")
+						.onClick(() => {
+							this.openTemplatePicker(this.getTemplateNames(), (name) =>
+								this.bulkAddMetaTag(notes, name)
+							);
+						})
+				);
+			})
+		);
 
-		// Debounce to prevent rapid successive calls
-		const handleMetadataChange = debounce(
-			async (file: TFile) => await this.onMetadataChanged(file),
-			500,
-			true
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!(file instanceof TFolder)) return;
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Add MetaTag to notes in folder…")
+						.setIcon("tags")
+						.onClick(() => {
+							this.openTemplatePicker(this.getTemplateNames(), (name) =>
+								this.bulkAddMetaTag(this.getMarkdownFilesInFolder(file), name)
+							);
+						})
+				);
+			})
 		);
 
 		this.registerEvent(
 			this.app.metadataCache.on("changed", (file) => {
-				handleMetadataChange(file);
+				this.index.setNoteTags(file.path, this.getAllTags(file));
+				const queued = this.syncQueue.push(
+					file.path,
+					this.getFrontmatterState(this.app.metadataCache.getFileCache(file)?.frontmatter)
+				);
+				// Our own writes need no handling, only fresh caches and decorations
+				if (!queued) this.onOwnWrite(file);
 			})
 		);
 
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				this.onFileRenamed(file, oldPath)
+			)
+		);
+
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.onFileDeleted(file))
+		);
+
 		this.registerEvent(
 			this.app.workspace.on('file-open', async (file: TFile) => {
 				if (file && file.extension === 'md') {
@@ -62,10 +507,23 @@ export default class MetaTagsPlugin extends Plugin {
 			  }
 			})
 		  );
+
+		// Switching between reading and editing renders the properties again
+		this.registerEvent(
+			this.app.workspace.on("layout-change", () => this.updateOpenViewAttributes())
+		);
+
+		// Captured before Obsidian's own menu, and only on MetaTag badges
+		this.registerDomEvent(
+			document,
+			"contextmenu",
+			(evt) => this.onPropertyBadgeContextMenu(evt),
+			{ capture: true }
+		);
 	}
 
 	onunload() {
-		console.log("Unloading MetaTags plugin");
+		this.syncQueue?.clear();
 	}
 
 	async loadSettings() {
@@ -89,6 +547,7 @@ export default class MetaTagsPlugin extends Plugin {
 		for (const file of allFiles) {
 			const tags = this.getAllTags(file);
 			this.fileTagCache.set(file.path, tags);
+			this.index.setNoteTags(file.path, tags);
 		}
 	}
 
@@ -121,12 +580,33 @@ export default class MetaTagsPlugin extends Plugin {
 	
 		for (const file of templateFiles) {
 			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-			this.templateCache.set(file.path, frontmatter);
+			this.setTemplateCacheEntry(file.path, frontmatter);
 		}
+		this.initializeTemplateSectionCache();
 	}
 	
 	
 
+	/**
+	 * Rebuilds the template caches, e.g. after the template folder changed.
+	 */
+	reloadTemplates() {
+		for (const path of [...this.templateCache.keys()]) {
+			this.deleteTemplateCacheEntry(path);
+		}
+		this.templateSectionCache.clear();
+		this.initializeTemplateCache();
+	}
+
+	async initializeTemplateSectionCache() {
+		for (const path of this.templateCache.keys()) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				this.templateSectionCache.set(path, await this.readTemplateSections(file));
+			}
+		}
+	}
+
 	getAllTemplateFiles(folder: TFolder): TFile[] {
 		let files: TFile[] = [];
 		for (const child of folder.children) {
@@ -139,14 +619,29 @@ export default class MetaTagsPlugin extends Plugin {
 		return files;
 	}
 
+	/**
+	 * Brings the caches up to date with a write the plugin made itself. Nothing is
+	 * synced, but later edits must be compared against what the write left behind.
+	 */
+	async onOwnWrite(file: TFile) {
+		if (await this.isTemplateFile(file)) {
+			this.setTemplateCacheEntry(
+				file.path,
+				this.app.metadataCache.getFileCache(file)?.frontmatter || {}
+			);
+			this.templateSectionCache.set(file.path, await this.readTemplateSections(file));
+		} else {
+			this.fileTagCache.set(file.path, this.getAllTags(file));
+		}
+		this.updateMetaTagAttributes(file);
+	}
+
 	async onMetadataChanged(file: TFile) {
-		console.log('onMetadataChanged')
 		const isTemplate = await this.isTemplateFile(file);
 
 		if (isTemplate) {
 			// Template metadata changed
-			console.log("handleTemplateMetadataChange");
-			this.handleTemplateMetadataChange(file);
+			await this.handleTemplateMetadataChange(file);
 		} else {
 			// Note metadata changed
 			const currentTags = this.getAllTags(file);
@@ -156,17 +651,16 @@ export default class MetaTagsPlugin extends Plugin {
 			const removedTags = this.getRemovedTags(prevTags, currentTags);
 
 			if (addedTags.length > 0) {
-				console.log("handleMetaTagAdded");
 				await this.handleMetaTagAdded(file, addedTags);
 			}
 
 			if (removedTags.length > 0) {
-				console.log("handleMetaTagRemoved");
 				await this.handleMetaTagRemoved(file, removedTags);
 			}
 
 			// Update the cache with current tags
 			this.fileTagCache.set(file.path, currentTags);
+			await this.warnAboutLockedPropertyEdits(file);
 		}
 		await this.updateMetaTagAttributes(file);
 	}
@@ -176,11 +670,7 @@ export default class MetaTagsPlugin extends Plugin {
 	
 		if (templateFolderPath) {
 			// If template folder is specified, check if the file is within that folder
-			const templateFolder = this.app.vault.getAbstractFileByPath(templateFolderPath);
-			if (!templateFolder || !(templateFolder instanceof TFolder)) {
-				return false;
-			}
-			return file.path.startsWith(templateFolder.path);
+			return file.path.startsWith(`${this.getTemplateFolderPath()}/`);
 		} else {
 			// If no template folder is specified, check if the file has the tagBase in its frontmatter tags
 			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
@@ -198,7 +688,7 @@ export default class MetaTagsPlugin extends Plugin {
 	
 		if (templateFolderPath) {
 			// If template folder is specified, look for the template file there
-			const templateFilePath = `${templateFolderPath}/${templateName}.md`;
+			const templateFilePath = normalizePath(`${templateFolderPath}/${templateName}.md`);
 			const templateFile = this.app.vault.getAbstractFileByPath(templateFilePath);
 			if (templateFile instanceof TFile) {
 				return templateFile;
@@ -207,17 +697,13 @@ export default class MetaTagsPlugin extends Plugin {
 				return null;
 			}
 		} else {
-			// If no template folder is specified, search all markdown files for the template
-			const allFiles = this.app.vault.getMarkdownFiles();
-			for (const file of allFiles) {
-				if (file.basename === templateName) {
-					const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
-					if (frontmatter) {
-						const tags = this.getAllTagsFromFrontmatter(frontmatter);
-						if (tags.includes(this.settings.tagBase)) {
-							return file;
-						}
-					}
+			// If no template folder is specified, look the template up in the index
+			const templatePath = this.index.getTemplatePath(templateName);
+			const file = templatePath ? this.app.vault.getAbstractFileByPath(templatePath) : null;
+			if (file instanceof TFile) {
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (frontmatter && this.getAllTagsFromFrontmatter(frontmatter).includes(this.settings.tagBase)) {
+					return file;
 				}
 			}
 			console.warn(`Template "${templateName}" not found in the vault.`);
@@ -240,6 +726,8 @@ export default class MetaTagsPlugin extends Plugin {
 
 		if (metaTagNames.length > 0) {
 			await this.applyTemplateMetadata(file, metaTagNames);
+			await this.insertTemplateSections(file, metaTagNames);
+			this.events.trigger("metatag-applied", file, metaTagNames);
 			this.refreshFileView(file);
 		}
 	}
@@ -254,246 +742,2121 @@ export default class MetaTagsPlugin extends Plugin {
 				if (this.settings.deleteEmptyMetatagProperties) {
 					await this.removeEmptyTemplateProperties(file, metaTagName);
 				}
+				this.events.trigger("metatag-removed", file, metaTagName);
 			}
 		}
 		this.refreshFileView(file);
 	}
 
 	async handleTemplateMetadataChange(templateFile: TFile) {
-		const metaTagName = templateFile.basename;
+		const metaTagName = this.getTemplateNameFromPath(templateFile.path);
+		this.reportedTemplateCycles.clear();
 
-		// Get previous and current frontmatter
-		const prevTemplateData =
-			this.templateCache.get(templateFile.path) || {};
+		// Get current frontmatter; the previous one is still in templateCache
 		const currTemplateData =
 			this.app.metadataCache.getFileCache(templateFile)?.frontmatter ||
 			{};
 
+		// Every template that inherits from this one is affected as well
+		const affectedTemplates = [
+			metaTagName,
+			...(await this.getDescendantTemplateNames(metaTagName)),
+		];
+
+		// Resolve each affected template against the previous cache state
+		const readCachedData = async (file: TFile) =>
+			this.templateCache.get(file.path) || {};
+		const prevResolved = new Map<string, any>();
+		const prevMigrations = new Map<string, PropertyMigration[]>();
+		const prevSchemas = new Map<string, TemplateSchema>();
+		for (const name of affectedTemplates) {
+			prevResolved.set(
+				name,
+				await this.resolveTemplateData(name, readCachedData)
+			);
+			prevMigrations.set(
+				name,
+				await this.resolveTemplateMigrations(name, readCachedData)
+			);
+			prevSchemas.set(
+				name,
+				await this.resolveTemplateSchema(name, readCachedData)
+			);
+		}
+
 		// Update the templateCache with current frontmatter
-		this.templateCache.set(templateFile.path, currTemplateData);
+		this.setTemplateCacheEntry(templateFile.path, currTemplateData);
+		const sectionChanges = await this.planTemplateSectionSync(templateFile, metaTagName);
+
+		const templateSyncs: TemplateSync[] = [];
+		for (const name of affectedTemplates) {
+			const prevProps = this.getTemplatePropertyNames(prevResolved.get(name) || {});
+			const currData = await this.resolveTemplateData(name, readCachedData);
+			const currProps = this.getTemplatePropertyNames(currData);
+
+			const { added: addedProps, removed: removedProps } = getPropertyChanges(
+				prevProps,
+				currProps
+			);
 
-		// Remove 'tags' and 'mt' from consideration
-		const ignoreProps = ["tags", "mt"];
-		const prevProps = Object.keys(prevTemplateData).filter(
-			(prop) => !ignoreProps.includes(prop)
-		);
-		const currProps = Object.keys(currTemplateData).filter(
-			(prop) => !ignoreProps.includes(prop)
-		);
+			// Only migrations added by this edit run; earlier ones already did
+			const migrations = (
+				await this.resolveTemplateMigrations(name, readCachedData)
+			).filter(
+				(migration) =>
+					!(prevMigrations.get(name) || []).some((prev) => isSameValue(prev, migration))
+			);
 
-		// Determine added and removed properties
-		const addedProps = currProps.filter(
-			(prop) => !prevProps.includes(prop)
-		);
-		const removedProps = prevProps.filter(
-			(prop) => !currProps.includes(prop)
-		);
+			// Enforced and locked properties are re-applied on every sync
+			const currSchema = await this.resolveTemplateSchema(name, readCachedData);
+			const enforcedProps = currProps.filter((prop) => isEnforcedProperty(currSchema, prop));
 
-		// Get all notes with this MetaTag
-		const allFiles = this.app.vault.getMarkdownFiles();
-		for (const file of allFiles) {
-			const tags = this.getAllTags(file);
-			if (tags.includes(`${this.settings.tagBase}/${metaTagName}`)) {
-				await this.syncTemplateToNote(
-					file,
-					metaTagName,
-					addedProps,
-					removedProps,
-					currTemplateData
-				);
+			if (
+				addedProps.length === 0 &&
+				removedProps.length === 0 &&
+				migrations.length === 0 &&
+				enforcedProps.length === 0
+			) {
+				continue;
 			}
+			templateSyncs.push({
+				name,
+				rank: this.getTemplateRank(name),
+				addedProps,
+				removedProps,
+				data: currData,
+				migrations,
+				// Keep the previous policies of removed properties, e.g. "keep"
+				schema: mergeTemplateSchemas([prevSchemas.get(name) || {}, currSchema]),
+			});
 		}
-	}
 
-	async applyTemplateMetadata(file: TFile, metaTagNames: string[]) {
-		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-		let mergedTemplateData = {};
-	
-		for (const metaTagName of metaTagNames) {
-			const templateFile = await this.getTemplateFileByName(metaTagName);
-			if (!templateFile) continue;
-	
-			const templateData = this.app.metadataCache.getFileCache(templateFile)?.frontmatter || {};
-			mergedTemplateData = { ...mergedTemplateData, ...templateData };
+		const changes = await this.planTemplateSyncs(templateSyncs);
+		// A note gets its property and section changes in one write
+		for (const sectionChange of sectionChanges) {
+			const change = changes.find((c) => c.file.path === sectionChange.file.path);
+			if (change) {
+				change.body = sectionChange.body;
+			} else {
+				changes.push(sectionChange);
+			}
 		}
-	
-		// Merge with note data, note data takes precedence
-		const mergedData = { ...mergedTemplateData, ...noteData };
-	
-		const content = await this.app.vault.read(file);
-		const newContent = this.replaceFrontMatter(content, mergedData);
-	
-		await this.app.vault.modify(file, newContent);
+		await this.confirmAndApplyChanges(
+			changes,
+			`Sync changes from template "${metaTagName}"`,
+			metaTagName
+		);
 	}
 
-	async syncTemplateToNote(
-		file: TFile,
-		metaTagName: string,
-		addedProps: string[],
-		removedProps: string[],
-		currTemplateData: any
-	) {
-		const noteData =
-			this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+	/**
+	 * Reads the body sections a template syncs to its notes.
+	 */
+	async readTemplateSections(templateFile: TFile): Promise<BodySection[]> {
+		const directive = this.app.metadataCache.getFileCache(templateFile)?.frontmatter?.sections;
+		if (!directive) return [];
 
-		// Create a copy of noteData
-		const newData = { ...noteData };
+		const { body } = getNoteBody(await this.app.vault.cachedRead(templateFile));
+		return getTemplateSections(body, directive);
+	}
 
-		// For added properties
-		for (const prop of addedProps) {
-			if (!(prop in newData)) {
-				// Add the property from the template to the note
-				newData[prop] = currTemplateData[prop];
+	/**
+	 * Adds the body sections of the given templates that the note has no heading for.
+	 */
+	async insertTemplateSections(file: TFile, metaTagNames: string[]) {
+		const sections: BodySection[] = [];
+		for (const metaTagName of metaTagNames) {
+			const templateFile = await this.getTemplateFileByName(metaTagName);
+			if (templateFile) {
+				sections.push(...(await this.readTemplateSections(templateFile)));
 			}
-			// If the property already exists in the note, leave it unchanged
 		}
+		if (sections.length === 0) return;
 
-		// For removed properties
-		for (const prop of removedProps) {
-			if (
-				prop in newData &&
-				(newData[prop] === "" || newData[prop] == null)
-			) {
-				// Remove the property from the note if it's empty
-				delete newData[prop];
-			}
-			// If the property has a value, leave it unchanged
-		}
+		await this.writeNoteBody(file, (body) => insertMissingSections(body, sections));
+	}
 
-		// Remove 'tags' and 'mt' from newData if present
-		// delete newData['tags'];
-		// delete newData['mt'];
+	/**
+	 * Plans spreading edits of a template's body sections to its notes. A note
+	 * section is only replaced while it still reads exactly like the previous
+	 * template text; new template sections are added to notes that have no such
+	 * heading. The changes leave the frontmatter alone and carry the new body.
+	 */
+	async planTemplateSectionSync(templateFile: TFile, metaTagName: string): Promise<FrontmatterChange[]> {
+		const previousSections = this.templateSectionCache.get(templateFile.path) || [];
+		const currentSections = await this.readTemplateSections(templateFile);
+		this.templateSectionCache.set(templateFile.path, currentSections);
+
+		const changed = currentSections.filter(
+			(section) =>
+				!previousSections.some(
+					(previous) =>
+						previous.heading === section.heading && previous.content === section.content
+				)
+		);
+		if (changed.length === 0) return [];
+		// Edited sections only update notes; a note without one deleted it on purpose
+		const added = changed.filter(
+			(section) => !previousSections.some((previous) => isSameHeading(previous.heading, section.heading))
+		);
 
-		const content = await this.app.vault.read(file);
-		const newContent = this.replaceFrontMatter(content, newData);
+		const changes: FrontmatterChange[] = [];
+		for (const file of this.getNotesWithMetaTag(metaTagName)) {
+			if (await this.isTemplateFile(file)) continue;
 
-		await this.app.vault.modify(file, newContent);
+			const { body } = getNoteBody(await this.app.vault.read(file));
+			const newBody = insertMissingSections(
+				updateUntouchedSections(body, previousSections, currentSections),
+				added
+			);
+			if (newBody === body) continue;
+
+			const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			changes.push({
+				file,
+				before: noteData,
+				after: noteData,
+				body: {
+					before: body,
+					after: newBody,
+					sections: getChangedSectionHeadings(body, newBody),
+				},
+			});
+		}
+		return changes;
 	}
 
-	async syncTemplateToNotes(file: TFile, metaTagName: string) {
-		const templateFile = this.app.vault.getAbstractFileByPath(
-			`${this.settings.tagBase}/${metaTagName}.md`
-		) as TFile;
-		if (!templateFile) return;
-
-		const templateData =
-			this.app.metadataCache.getFileCache(templateFile)?.frontmatter ||
-			{};
-		const noteData =
-			this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-
-		const mergedData = { ...templateData, ...noteData };
+	/**
+	 * Rewrites the body of a note, keeping its frontmatter as it is.
+	 */
+	async writeNoteBody(file: TFile, update: (body: string) => string): Promise<boolean> {
+		const content = await this.app.vault.read(file);
+		const { body } = getNoteBody(content);
+		const newBody = update(body);
+		if (newBody === body) return false;
 
-		// delete mergedData["tags"];
-		// delete mergedData["mt"];
+		await this.modifyNote(file, setNoteBody(content, newBody));
+		return true;
+	}
 
-		const content = await this.app.vault.read(file);
-		const newContent = this.replaceFrontMatter(content, mergedData);
+	/**
+	 * Plans a full sync of a template and its descendants: every template property
+	 * missing from a tagged note is listed, regardless of what changed last.
+	 */
+	async planFullTemplateSync(templateFile: TFile): Promise<FrontmatterChange[]> {
+		const metaTagName = this.getTemplateNameFromPath(templateFile.path);
+		this.reportedTemplateCycles.clear();
+
+		const templateSyncs: TemplateSync[] = [];
+		for (const name of [
+			metaTagName,
+			...(await this.getDescendantTemplateNames(metaTagName)),
+		]) {
+			const data = await this.resolveTemplateData(name);
+			templateSyncs.push({
+				name,
+				rank: this.getTemplateRank(name),
+				addedProps: this.getTemplatePropertyNames(data),
+				removedProps: [],
+				data,
+				migrations: await this.resolveTemplateMigrations(name),
+				schema: await this.resolveTemplateSchema(name),
+			});
+		}
 
-		await this.app.vault.modify(file, newContent);
+		return await this.planTemplateSyncs(templateSyncs);
 	}
 
-	async removeEmptyTemplateProperties(file: TFile, metaTagName: string) {
-		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-		const content = await this.app.vault.read(file);
-	
-		const templateFile = await this.getTemplateFileByName(metaTagName);
-		if (!templateFile) return;
-	
-		const templateContent = await this.app.vault.read(templateFile);
-		const templateData = this.extractFrontmatter(templateContent);
-	
-		const newData = { ...noteData };
-	
-		for (const key in newData) {
-			if (templateData.hasOwnProperty(key)) {
-				const noteValue = newData[key];
-				const templateValue = templateData[key];
-	
-				if (noteValue === "" || noteValue === null) {
-					delete newData[key];
-				} else if (typeof templateValue === 'boolean') {
-					if (noteValue === templateValue) {
-						delete newData[key];
-					}
+	/**
+	 * Turns template property changes into one planned change per tagged note, so a
+	 * note tagged with several affected templates is only rewritten once.
+	 */
+	async planTemplateSyncs(templateSyncs: TemplateSync[]): Promise<FrontmatterChange[]> {
+		const pendingSyncs = new Map<
+			string,
+			{
+				file: TFile;
+				addedProps: string[];
+				removedProps: string[];
+				sources: TemplateSource[];
+				migrations: PropertyMigration[];
+			}
+		>();
+		for (const { name, rank, addedProps, removedProps, data, migrations, schema } of templateSyncs) {
+			// Get all notes with this MetaTag
+			for (const file of this.getFilesWithTag(`${this.settings.tagBase}/${name}`)) {
+				const pending = pendingSyncs.get(file.path) || {
+					file,
+					addedProps: [],
+					removedProps: [],
+					sources: [],
+					migrations: [],
+				};
+				pending.addedProps.push(...addedProps);
+				pending.removedProps.push(...removedProps);
+				pending.migrations.push(...migrations);
+				pending.sources.push({ name, data, schema, rank });
+				pendingSyncs.set(file.path, pending);
+			}
+		}
+
+		const changes: FrontmatterChange[] = [];
+		for (const pending of pendingSyncs.values()) {
+			// The note's other MetaTags still take part in priority and merging
+			const sources = [...pending.sources];
+			for (const name of new Set(this.getNoteMetaTagNames(pending.file))) {
+				if (!sources.some((source) => source.name === name)) {
+					sources.push(await this.getTemplateSource(name));
 				}
-				// Optionally handle other data types here
+			}
+			const merged = mergeTemplateSources(sources);
+			const change = await this.planTemplateSyncToNote(
+				pending.file,
+				[...new Set(pending.addedProps)],
+				// A property another template still gives the note is not removed
+				[...new Set(pending.removedProps)].filter((prop) => !(prop in merged.data)),
+				merged.data,
+				pending.migrations,
+				merged.schema
+			);
+			if (hasFrontmatterChanges(change) || (change.problems || []).length > 0) {
+				changes.push(change);
 			}
 		}
-	
-		const newContent = this.replaceFrontMatter(content, newData);
-		await this.app.vault.modify(file, newContent);
+		return changes;
 	}
-	
-	replaceFrontMatter(content: string, newData: any): string {
-		const yamlStart = content.indexOf("---");
-		const yamlEnd = content.indexOf("---", yamlStart + 3);
 
-		let restOfContent = content;
-		if (yamlStart !== -1 && yamlEnd !== -1) {
-			restOfContent = content.substring(yamlEnd + 3).trimStart();
-		} else {
-			// No existing frontmatter; start after possible initial line breaks
-			restOfContent = content.trimStart();
-		}
+	/**
+	 * Applies planned changes right away, or asks first when previews are enabled.
+	 */
+	async confirmAndApplyChanges(changes: FrontmatterChange[], title: string, metaTagName: string) {
+		if (changes.length === 0) return;
 
-		const newYaml = JSYAML.dump(newData);
+		if (!this.settings.previewTemplateChanges) {
+			const files = await this.applyFrontmatterChanges(changes, "template-edit", title);
+			this.reportMigrationProblems(changes);
+			this.events.trigger("template-synced", metaTagName, files);
+			return;
+		}
 
-		return `---\n${newYaml}---\n\n${restOfContent}`;
+		new TemplateSyncPreviewModal(this.app, title, changes, async (selected) => {
+			const files = await this.applyFrontmatterChanges(selected, "template-edit", title);
+			this.reportMigrationProblems(selected);
+			this.events.trigger("template-synced", metaTagName, files);
+			new Notice(`MetaTags: updated ${selected.length} note(s)`);
+		}).open();
 	}
 
-	getAllTags(file: TFile): string[] {
-		const fileCache = this.app.metadataCache.getFileCache(file);
-		const tagCache = fileCache?.tags || [];
-		const frontmatterTags = fileCache?.frontmatter?.tags;
-
-		let tags: string[] = [];
-
-		// Extract tags from tagCache (e.g., inline tags)
-		if (tagCache.length > 0) {
-			tags = tags.concat(tagCache.map((tc) => tc.tag));
-		}
+	/**
+	 * Lists the notes whose property migrations could not convert a value.
+	 */
+	reportMigrationProblems(changes: FrontmatterChange[]) {
+		const reports: NoteReport[] = changes
+			.filter((change) => (change.problems || []).length > 0)
+			.map((change) => ({ file: change.file, messages: change.problems || [] }));
+		if (reports.length === 0) return;
+
+		new NoteReportModal(
+			this.app,
+			"Property migrations that need attention",
+			"",
+			reports
+		).open();
+	}
 
-		// Extract tags from frontmatter
-		if (frontmatterTags) {
-			if (typeof frontmatterTags === "string") {
-				tags.push(frontmatterTags);
-			} else if (Array.isArray(frontmatterTags)) {
-				tags = tags.concat(frontmatterTags);
+	/**
+	 * Applies planned changes as one journal batch, so they can be undone together.
+	 */
+	async applyFrontmatterChanges(
+		changes: FrontmatterChange[],
+		trigger: JournalTrigger,
+		label: string
+	): Promise<TFile[]> {
+		const batch = this.journal.startBatch(trigger, label);
+		const updated: TFile[] = [];
+		for (let index = 0; index < changes.length; index++) {
+			// Yield between batches so large template syncs keep the app responsive
+			if (index > 0 && index % SYNC_BATCH_SIZE === 0) await sleep(0);
+
+			if (await this.applyFrontmatterChange(changes[index], batch)) {
+				updated.push(changes[index].file);
 			}
 		}
-
-		// Remove '#' from tags and duplicates
-		tags = tags.map((tag) =>
-			tag.startsWith("#") ? tag.substring(1) : tag
-		);
-		tags = [...new Set(tags)];
-
-		return tags;
+		await this.journal.commit(batch);
+		return updated;
 	}
 
-	getMetaTagNamesFromFrontmatter(frontmatter: any): string[] {
-		const tags = frontmatter.tags;
-		if (!tags) return [];
-
-		let tagList: string[] = [];
+	/**
+	 * Writes a planned change on top of the note's current frontmatter. A planned
+	 * body is skipped when the note's body was edited since the change was planned.
+	 */
+	async applyFrontmatterChange(change: FrontmatterChange, batch?: JournalBatch): Promise<boolean> {
+		const noteData =
+			this.app.metadataCache.getFileCache(change.file)?.frontmatter || {};
+		const newData = applyFrontmatterDiff(noteData, change);
 
-		if (typeof tags === "string") {
-			tagList.push(tags);
-		} else if (Array.isArray(tags)) {
-			tagList = tags;
+		let body = change.body;
+		if (body && getNoteBody(await this.app.vault.read(change.file)).body !== body.before) {
+			body = undefined;
 		}
+		if (isSameValue(newData, noteData) && !body) return false;
 
-		const metaTagNames = tagList
-			.map((tag) => (tag.startsWith("#") ? tag.substring(1) : tag))
-			.filter((tag) => tag.startsWith(`${this.settings.tagBase}/`))
-			.map((tag) => tag.replace(`${this.settings.tagBase}/`, ""));
+		if (!(await this.writeFrontmatter(change.file, newData, body?.after))) return false;
 
-		return metaTagNames;
+		batch?.entries.push({
+			path: change.file.path,
+			before: noteData,
+			after: newData,
+			...(body ? { body } : {}),
+		});
+		return true;
 	}
 
-	isMetaTag(tag: string): boolean {
-		return tag.startsWith(`${this.settings.tagBase}/`);
+	/**
+	 * Rewrites a note's frontmatter and, when given, replaces its body in the same write.
+	 */
+	async writeFrontmatter(file: TFile, newData: any, newBody?: string): Promise<boolean> {
+		const content = await this.app.vault.read(file);
+
+		let newContent: string;
+		try {
+			newContent = this.replaceFrontMatter(content, newData);
+			if (newBody !== undefined) newContent = setNoteBody(newContent, newBody);
+		} catch (e) {
+			console.error(`MetaTags: could not update the frontmatter of "${file.path}"`, e);
+			new Notice(`MetaTags: skipped "${file.path}" because its frontmatter is not valid YAML`);
+			return false;
+		}
+
+		if (newContent !== content) {
+			await this.modifyNote(file, newContent);
+		}
+		return true;
+	}
+
+	/**
+	 * Writes a note and tells the sync queue, so the change event it causes is
+	 * not handled as an edit.
+	 */
+	async modifyNote(file: TFile, content: string) {
+		this.syncQueue.expectWrite(
+			file.path,
+			this.getFrontmatterState(this.extractFrontmatter(content))
+		);
+		await this.app.vault.modify(file, content);
+	}
+
+	getFrontmatterState(frontmatter: any): string {
+		return JSON.stringify(frontmatter || {});
+	}
+
+	/**
+	 * Reverts every note in a journal batch. Keys edited again since the batch
+	 * ran are kept as they are and reported.
+	 */
+	async undoJournalBatch(batch: JournalBatch) {
+		let restored = 0;
+		const conflicts: string[] = [];
+
+		for (const entry of [...batch.entries].reverse()) {
+			const file = this.app.vault.getAbstractFileByPath(entry.path);
+			if (!(file instanceof TFile)) {
+				conflicts.push(`${entry.path} (missing)`);
+				continue;
+			}
+
+			const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			const { body } = getNoteBody(await this.app.vault.read(file));
+			const undo = planUndo(noteData, entry, body);
+			if (undo.conflicts.length > 0) {
+				conflicts.push(`${entry.path} (${undo.conflicts.join(", ")})`);
+			}
+			if (
+				(!isSameValue(undo.data, noteData) || undo.body !== undefined) &&
+				(await this.writeFrontmatter(file, undo.data, undo.body))
+			) {
+				restored++;
+			}
+		}
+
+		await this.journal.remove(batch);
+
+		if (conflicts.length > 0) {
+			console.warn("MetaTags: changes kept during undo", conflicts);
+			new Notice(
+				`MetaTags: restored ${restored} note(s); kept later edits in ${conflicts.length} note(s), see the console for details`
+			);
+		} else {
+			new Notice(`MetaTags: restored ${restored} note(s)`);
+		}
+	}
+
+	/**
+	 * Returns the properties a template contributes to notes, without template-only keys.
+	 */
+	getTemplatePropertyNames(templateData: any): string[] {
+		return Object.keys(templateData).filter(
+			(prop) => !this.isTemplateOnlyKey(prop)
+		);
+	}
+
+	/**
+	 * Whether a template frontmatter key belongs to the template itself: its tags,
+	 * the tag base, directives, the reserved namespace and the configured keys.
+	 */
+	isTemplateOnlyKey(key: string): boolean {
+		return (
+			key === "tags" ||
+			key === this.settings.tagBase ||
+			TEMPLATE_DIRECTIVE_KEYS.includes(key) ||
+			key.startsWith(TEMPLATE_DIRECTIVE_PREFIX) ||
+			this.settings.templateOnlyKeys.includes(key)
+		);
+	}
+
+	/**
+	 * Reads the parent template names declared in a template's `extends` key.
+	 * Accepts a single name or a list, written as `book`, `mt/book` or `[[book]]`.
+	 */
+	getTemplateParentNames(templateData: any): string[] {
+		const parents = templateData?.extends;
+		if (!parents) return [];
+
+		const parentList: string[] = Array.isArray(parents) ? parents : [parents];
+
+		return parentList
+			.filter((parent) => typeof parent === "string")
+			.map((parent) =>
+				parent
+					.trim()
+					.replace(/^\[\[(.*)\]\]$/, "$1")
+					.replace(/^#/, "")
+			)
+			.map((parent) =>
+				this.isMetaTag(parent) ? this.getMetaTagName(parent) : parent
+			)
+			.filter((parent) => parent.length > 0);
+	}
+
+	/**
+	 * Returns the templates a template inherits from: the nearest parent folder
+	 * template when folder inheritance is on, then the ones listed in `extends`.
+	 */
+	getInheritedTemplateNames(templateName: string, templateData: any): string[] {
+		const parents = this.getTemplateParentNames(templateData);
+		const folderParent = this.getFolderParentTemplateName(templateName);
+		if (folderParent && !parents.includes(folderParent)) {
+			parents.unshift(folderParent);
+		}
+		return parents;
+	}
+
+	/**
+	 * Finds the closest template named after a parent folder, e.g. `work` for `work/meeting`.
+	 */
+	getFolderParentTemplateName(templateName: string): string | null {
+		const templateFolderPath = this.getTemplateFolderPath();
+		if (!this.settings.inheritFolderTemplates || !templateFolderPath) return null;
+
+		const segments = templateName.split("/");
+		for (let length = segments.length - 1; length > 0; length--) {
+			const parentName = segments.slice(0, length).join("/");
+			if (this.templateCache.has(`${templateFolderPath}/${parentName}.md`)) {
+				return parentName;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Resolves the properties a template gives to notes, including everything it
+	 * inherits through `extends`. Parents are applied first, in declaration order,
+	 * so the child always wins. Template-only keys are left out.
+	 */
+	async resolveTemplateData(
+		templateName: string,
+		getTemplateData?: TemplateDataSource
+	): Promise<any> {
+		const chain = await this.resolveTemplateChain(templateName, getTemplateData);
+		const resolvedData = Object.assign({}, ...chain);
+		for (const key of Object.keys(resolvedData)) {
+			if (this.isTemplateOnlyKey(key)) delete resolvedData[key];
+		}
+		return resolvedData;
+	}
+
+	/**
+	 * Resolves the property schema a template declares, including inherited schemas.
+	 */
+	async resolveTemplateSchema(
+		templateName: string,
+		getTemplateData?: TemplateDataSource
+	): Promise<TemplateSchema> {
+		const chain = await this.resolveTemplateChain(templateName, getTemplateData);
+		return mergeTemplateSchemas(chain.map((data) => parseTemplateSchema(data)));
+	}
+
+	/**
+	 * Position of a template in the priority setting; unlisted templates share the last rank.
+	 */
+	getTemplateRank(metaTagName: string): number {
+		const index = this.settings.templatePriority.indexOf(metaTagName);
+		return index === -1 ? this.settings.templatePriority.length : index;
+	}
+
+	/**
+	 * Resolves and merges the templates of several MetaTags by priority, using each
+	 * property's merge strategy.
+	 */
+	async mergeNoteTemplates(
+		metaTagNames: string[],
+		getTemplateData?: TemplateDataSource
+	): Promise<MergedTemplates> {
+		const sources: TemplateSource[] = [];
+		for (const name of [...new Set(metaTagNames)]) {
+			sources.push(await this.getTemplateSource(name, getTemplateData));
+		}
+		return mergeTemplateSources(sources);
+	}
+
+	/**
+	 * Resolves a template as a merge source, ranked by the priority setting.
+	 */
+	async getTemplateSource(
+		metaTagName: string,
+		getTemplateData?: TemplateDataSource
+	): Promise<TemplateSource> {
+		return {
+			name: metaTagName,
+			data: await this.resolveTemplateData(metaTagName, getTemplateData),
+			schema: await this.resolveTemplateSchema(metaTagName, getTemplateData),
+			rank: this.getTemplateRank(metaTagName),
+		};
+	}
+
+	/**
+	 * Resolves the property migrations a template declares, ancestors first.
+	 */
+	async resolveTemplateMigrations(
+		templateName: string,
+		getTemplateData?: TemplateDataSource
+	): Promise<PropertyMigration[]> {
+		const chain = await this.resolveTemplateChain(templateName, getTemplateData);
+		return chain.flatMap((data) => parseTemplateMigrations(data));
+	}
+
+	/**
+	 * Collects the raw frontmatter of a template and all of its ancestors, parents first.
+	 * Cycles are reported and the repeated template is skipped.
+	 */
+	async resolveTemplateChain(
+		templateName: string,
+		getTemplateData: TemplateDataSource = async (file) =>
+			this.app.metadataCache.getFileCache(file)?.frontmatter || {},
+		chain: string[] = []
+	): Promise<any[]> {
+		if (chain.includes(templateName)) {
+			this.reportTemplateCycle([...chain, templateName]);
+			return [];
+		}
+
+		const templateFile = await this.getTemplateFileByName(templateName);
+		if (!templateFile) return [];
+
+		const templateData = (await getTemplateData(templateFile)) || {};
+		const resolvedChain: any[] = [];
+
+		for (const parentName of this.getInheritedTemplateNames(templateName, templateData)) {
+			const parentChain = await this.resolveTemplateChain(
+				parentName,
+				getTemplateData,
+				[...chain, templateName]
+			);
+			resolvedChain.push(...parentChain);
+		}
+
+		resolvedChain.push(templateData);
+		return resolvedChain;
+	}
+
+	/**
+	 * Returns the names of all templates that inherit from the given template,
+	 * directly or through other templates.
+	 */
+	async getDescendantTemplateNames(templateName: string): Promise<string[]> {
+		const childrenByParent = new Map<string, string[]>();
+		for (const [path, templateData] of this.templateCache) {
+			const childName = this.getTemplateNameFromPath(path);
+			for (const parentName of this.getInheritedTemplateNames(childName, templateData)) {
+				const children = childrenByParent.get(parentName) || [];
+				children.push(childName);
+				childrenByParent.set(parentName, children);
+			}
+		}
+
+		const descendants: string[] = [];
+		// Each entry remembers the templates it was reached through
+		const queue = (childrenByParent.get(templateName) || []).map((name) => ({
+			name,
+			path: [templateName],
+		}));
+		while (queue.length > 0) {
+			const { name, path } = queue.shift() as { name: string; path: string[] };
+			if (name === templateName) {
+				this.reportTemplateCycle([...path, templateName].reverse());
+				continue;
+			}
+			// Already reached through another branch (diamond inheritance)
+			if (descendants.includes(name)) continue;
+			descendants.push(name);
+			queue.push(
+				...(childrenByParent.get(name) || []).map((child) => ({
+					name: child,
+					path: [...path, name],
+				}))
+			);
+		}
+
+		return descendants;
+	}
+
+	/**
+	 * Reports an inheritance cycle once per template edit. The chain ends with the
+	 * repeated template; any lead-in before the loop is left out, and every rotation
+	 * of the same loop counts as one cycle.
+	 */
+	reportTemplateCycle(chain: string[]) {
+		const cycle = chain.slice(chain.indexOf(chain[chain.length - 1]));
+		const key = [...new Set(cycle)].sort().join("\n");
+		if (this.reportedTemplateCycles.has(key)) return;
+		this.reportedTemplateCycles.add(key);
+
+		const description = cycle.join(" → ");
+
+		console.warn(`MetaTags: template inheritance cycle detected: ${description}`);
+		new Notice(`MetaTags: template inheritance cycle detected (${description})`);
+	}
+
+	async applyTemplateMetadata(file: TFile, metaTagNames: string[]) {
+		const change = await this.planTemplateApplication(file, metaTagNames);
+	
+		await this.applyFrontmatterChanges(
+			[change],
+			"tag-added",
+			`Applied ${metaTagNames.join(", ")} to ${file.basename}`
+		);
+	}
+
+	/**
+	 * Plans applying templates to a note. Placeholders in the defaults are resolved;
+	 * `{{prompt:…}}` asks the user only when allowPrompts is set.
+	 */
+	async planTemplateApplication(
+		file: TFile,
+		metaTagNames: string[],
+		allowPrompts = true
+	): Promise<FrontmatterChange> {
+		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		this.reportedTemplateCycles.clear();
+		const merged = await this.mergeNoteTemplates(metaTagNames);
+
+		const prompt: PromptHandler | undefined = allowPrompts
+			? (question, defaultValue) =>
+					new PromptModal(this.app, `${file.basename}: ${question}`, defaultValue).ask()
+			: undefined;
+		const mergedData = await applyTemplateDefaults(
+			noteData,
+			merged.data,
+			merged.schema,
+			(value, properties) =>
+				resolvePlaceholders(value, this.getPlaceholderContext(file, properties), prompt)
+		);
+
+		return { file, before: noteData, after: mergedData };
+	}
+
+	getPlaceholderContext(file: TFile, properties: any): PlaceholderContext {
+		return {
+			title: file.basename,
+			folder: !file.parent || file.parent.isRoot() ? "" : file.parent.path,
+			created: file.stat.ctime,
+			modified: file.stat.mtime,
+			now: Date.now(),
+			properties,
+			formatDate: (timestamp, format) => moment(timestamp).format(format),
+		};
+	}
+
+	/**
+	 * Adds a MetaTag to a note's frontmatter tags and applies its template in the
+	 * same write. Returns false when the note already carries the MetaTag.
+	 */
+	async addMetaTagToNote(file: TFile, metaTagName: string, batch?: JournalBatch): Promise<boolean> {
+		return await this.addMetaTagsToNote(file, [metaTagName], batch);
+	}
+
+	/**
+	 * Adds several MetaTags at once, skipping the ones the note already carries.
+	 */
+	async addMetaTagsToNote(file: TFile, metaTagNames: string[], batch?: JournalBatch): Promise<boolean> {
+		const existingTags = this.getAllTags(file);
+		const newTags = metaTagNames
+			.map((name) => `${this.settings.tagBase}/${name}`)
+			.filter((tag) => !existingTags.includes(tag));
+		if (newTags.length === 0) return false;
+
+		// Bulk runs pass a batch and must not stop for prompts
+		const change = await this.planTemplateApplication(
+			file,
+			newTags.map((tag) => this.getMetaTagName(tag)),
+			!batch
+		);
+		this.addMetaTagsToFrontmatter(
+			change.before,
+			change.after,
+			newTags.map((tag) => this.getMetaTagName(tag))
+		);
+
+		// The template is applied here, so onMetadataChanged must not see the tag as new
+		this.fileTagCache.set(file.path, [...existingTags, ...newTags]);
+
+		let applied: boolean;
+		if (batch) {
+			applied = await this.applyFrontmatterChange(change, batch);
+		} else {
+			const updated = await this.applyFrontmatterChanges(
+				[change],
+				"tag-added",
+				`Added ${newTags.join(", ")} to ${file.basename}`
+			);
+			applied = updated.length > 0;
+		}
+		if (applied) {
+			const metaTagNames = newTags.map((tag) => this.getMetaTagName(tag));
+			await this.insertTemplateSections(file, metaTagNames);
+			this.events.trigger("metatag-applied", file, metaTagNames);
+		}
+		return applied;
+	}
+
+	/**
+	 * Plans adding every template property a note is missing, for all of its
+	 * MetaTags or only the given ones.
+	 */
+	async planNoteResync(file: TFile, metaTagNames?: string[]): Promise<FrontmatterChange> {
+		const noteMetaTags = this.getAllTags(file)
+			.filter((tag) => this.isMetaTag(tag))
+			.map((tag) => this.getMetaTagName(tag))
+			.filter((name) => !metaTagNames || metaTagNames.includes(name));
+
+		const merged = await this.mergeNoteTemplates(noteMetaTags);
+		const migrations: PropertyMigration[] = [];
+		for (const metaTagName of noteMetaTags) {
+			migrations.push(...(await this.resolveTemplateMigrations(metaTagName)));
+		}
+
+		return await this.planTemplateSyncToNote(
+			file,
+			this.getTemplatePropertyNames(merged.data),
+			[],
+			merged.data,
+			migrations,
+			merged.schema
+		);
+	}
+
+	async bulkAddMetaTag(files: TFile[], metaTagName: string) {
+		const notes: TFile[] = [];
+		for (const file of files) {
+			if (file.extension === "md" && !(await this.isTemplateFile(file))) {
+				notes.push(file);
+			}
+		}
+
+		await this.runBulkOperation(
+			`Add ${this.settings.tagBase}/${metaTagName} to ${notes.length} note(s)`,
+			notes,
+			"tag-added",
+			(file, batch) => this.addMetaTagToNote(file, metaTagName, batch)
+		);
+	}
+
+	/**
+	 * Brings every note carrying the given MetaTag (or any MetaTag) up to date
+	 * with its templates, adding the properties it is missing.
+	 */
+	async bulkResync(metaTagName?: string) {
+		this.reportedTemplateCycles.clear();
+		const notes: TFile[] = [];
+		const changes: FrontmatterChange[] = [];
+		const updated: TFile[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const metaTags = this.getAllTags(file).filter((tag) => this.isMetaTag(tag));
+			const matches = metaTagName
+				? metaTags.includes(`${this.settings.tagBase}/${metaTagName}`)
+				: metaTags.length > 0;
+			if (matches && !(await this.isTemplateFile(file))) {
+				notes.push(file);
+			}
+		}
+
+		await this.runBulkOperation(
+			metaTagName
+				? `Re-sync ${notes.length} note(s) with "${metaTagName}"`
+				: `Re-sync ${notes.length} note(s) with their templates`,
+			notes,
+			"template-sync",
+			async (file, batch) => {
+				const change = await this.planNoteResync(
+					file,
+					metaTagName ? [metaTagName] : undefined
+				);
+				changes.push(change);
+				const applied = await this.applyFrontmatterChange(change, batch);
+				if (applied) updated.push(file);
+				return applied;
+			}
+		);
+
+		this.reportMigrationProblems(changes);
+		if (metaTagName) {
+			this.events.trigger("template-synced", metaTagName, updated);
+		}
+	}
+
+	/**
+	 * Runs an operation over many notes with a progress modal that can cancel it.
+	 * All changes land in a single journal batch.
+	 */
+	async runBulkOperation(
+		title: string,
+		files: TFile[],
+		trigger: JournalTrigger,
+		operation: (file: TFile, batch: JournalBatch) => Promise<boolean>
+	): Promise<BulkSummary> {
+		const modal = new BulkProgressModal(this.app, title);
+		modal.open();
+
+		const batch = this.journal.startBatch(trigger, title);
+		const summary: BulkSummary = {
+			total: files.length,
+			updated: 0,
+			skipped: 0,
+			failed: [],
+			cancelled: false,
+		};
+
+		for (let index = 0; index < files.length; index++) {
+			if (modal.cancelled) {
+				summary.cancelled = true;
+				break;
+			}
+
+			const file = files[index];
+			modal.update(index, files.length, file.path);
+			try {
+				if (await operation(file, batch)) {
+					summary.updated++;
+				} else {
+					summary.skipped++;
+				}
+			} catch (e) {
+				console.error(`MetaTags: failed to update "${file.path}"`, e);
+				summary.failed.push(file.path);
+			}
+
+			// Yield so the progress bar and the cancel button stay responsive
+			if (index % 20 === 0) await sleep(0);
+		}
+
+		await this.journal.commit(batch);
+		modal.update(summary.updated + summary.skipped + summary.failed.length, files.length);
+		modal.finish(summary);
+		new Notice(
+			`MetaTags: ${summary.updated} note(s) updated${summary.cancelled ? " before cancelling" : ""}`
+		);
+
+		return summary;
+	}
+
+	getMarkdownFilesInFolder(folder: TFolder): TFile[] {
+		return this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => folder.isRoot() || file.path.startsWith(`${folder.path}/`));
+	}
+
+	/**
+	 * Returns the notes listed in the core search view. The view has no public API,
+	 * so this tells the user and returns null when its internals are not available.
+	 */
+	getSearchResultFiles(): TFile[] | null {
+		const searchLeaf = this.app.workspace.getLeavesOfType("search")[0];
+		if (!searchLeaf) return [];
+
+		const resultLookup = (searchLeaf.view as SearchViewInternals).dom?.resultDomLookup;
+		if (!(resultLookup instanceof Map)) {
+			console.warn("MetaTags: the search view does not list its results where expected");
+			new Notice("MetaTags: could not read the search results in this version of Obsidian");
+			return null;
+		}
+
+		return [...resultLookup.keys()].filter(
+			(file): file is TFile => file instanceof TFile && file.extension === "md"
+		);
+	}
+
+	getTemplateNames(): string[] {
+		return [...this.templateCache.keys()]
+			.map((path) => this.getTemplateNameFromPath(path))
+			.sort((a, b) => a.localeCompare(b));
+	}
+
+	/**
+	 * Templates in the template folder are named by their path inside it, so
+	 * `Templates/work/meeting.md` is the template of `mt/work/meeting`. Templates
+	 * found by the tag base are named by their file name.
+	 */
+	getTemplateNameFromPath(path: string): string {
+		const templateFolderPath = this.getTemplateFolderPath();
+		if (templateFolderPath && path.startsWith(`${templateFolderPath}/`)) {
+			return path.substring(templateFolderPath.length + 1).replace(/\.md$/, "");
+		}
+		return path.split("/").pop()?.replace(/\.md$/, "") || "";
+	}
+
+	getTemplateFolderPath(): string {
+		const templateFolderPath = this.settings.templateFolderPath.trim();
+		return templateFolderPath ? normalizePath(templateFolderPath) : "";
+	}
+
+	async syncTemplateToNote(
+		file: TFile,
+		metaTagName: string,
+		addedProps: string[],
+		removedProps: string[],
+		currTemplateData: any
+	) {
+		const change = await this.planTemplateSyncToNote(
+			file,
+			addedProps,
+			removedProps,
+			currTemplateData
+		);
+		if (!hasFrontmatterChanges(change)) return;
+
+		await this.applyFrontmatterChanges(
+			[change],
+			"template-edit",
+			`Synced template "${metaTagName}" to ${file.basename}`
+		);
+	}
+
+	async planTemplateSyncToNote(
+		file: TFile,
+		addedProps: string[],
+		removedProps: string[],
+		currTemplateData: any,
+		migrations: PropertyMigration[] = [],
+		schema: TemplateSchema = {}
+	): Promise<FrontmatterChange> {
+		const noteData =
+			this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+
+		// Move existing values to their new keys before adding anything
+		const migrated = migrateProperties(noteData, migrations);
+
+		// Prompts are skipped because a sync can touch many notes at once
+		const newData = await syncTemplateProperties(
+			migrated.data,
+			addedProps,
+			removedProps,
+			currTemplateData,
+			schema,
+			(value, properties) =>
+				resolvePlaceholders(value, this.getPlaceholderContext(file, properties))
+		);
+
+		return { file, before: noteData, after: newData, problems: migrated.problems };
+	}
+
+	async syncTemplateToNotes(file: TFile, metaTagName: string) {
+		const templateFile = await this.getTemplateFileByName(metaTagName);
+		if (!templateFile) return;
+
+		const templateData = await this.resolveTemplateData(metaTagName);
+		const noteData =
+			this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+
+		const mergedData = { ...templateData, ...noteData };
+
+		await this.applyFrontmatterChanges(
+			[{ file, before: noteData, after: mergedData }],
+			"template-sync",
+			`Synced template "${metaTagName}" to ${file.basename}`
+		);
+	}
+
+	async removeEmptyTemplateProperties(file: TFile, metaTagName: string) {
+		const change = await this.planEmptyPropertyRemoval(file, metaTagName);
+		if (!change) return;
+
+		await this.applyFrontmatterChanges(
+			[change],
+			"tag-removed",
+			`Removed empty "${metaTagName}" properties from ${file.basename}`
+		);
+	}
+
+	async planEmptyPropertyRemoval(file: TFile, metaTagName: string): Promise<FrontmatterChange | null> {
+		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+	
+		const templateFile = await this.getTemplateFileByName(metaTagName);
+		if (!templateFile) return null;
+	
+		const readTemplateFromDisk: TemplateDataSource = async (file) =>
+			this.extractFrontmatter(await this.app.vault.read(file));
+		const templateData = await this.resolveTemplateData(metaTagName, readTemplateFromDisk);
+		const schema = await this.resolveTemplateSchema(metaTagName, readTemplateFromDisk);
+
+		return {
+			file,
+			before: noteData,
+			after: removeEmptyTemplateProperties(noteData, templateData, schema),
+		};
+	}
+
+	/**
+	 * Removes a MetaTag from wherever the note carries it, together with the empty
+	 * template properties when deleteEmptyMetatagProperties is enabled.
+	 */
+	async removeMetaTagFromNote(file: TFile, metaTagName: string): Promise<boolean> {
+		const tag = `${this.settings.tagBase}/${metaTagName}`;
+		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		if (!this.getNoteMetaTagNames(file).includes(metaTagName)) return false;
+
+		const change = (this.settings.deleteEmptyMetatagProperties
+			? await this.planEmptyPropertyRemoval(file, metaTagName)
+			: null) || { file, before: noteData, after: { ...noteData } };
+
+		this.replaceMetaTagInFrontmatter(noteData, change.after, metaTagName, null);
+
+		// The cleanup happens here, so onMetadataChanged must not handle the removal again
+		this.fileTagCache.set(
+			file.path,
+			this.getAllTags(file).filter((noteTag) => noteTag !== tag)
+		);
+
+		const updated = await this.applyFrontmatterChanges(
+			[change],
+			"tag-removed",
+			`Removed ${tag} from ${file.basename}`
+		);
+		const removedInline = await this.replaceInlineMetaTag(file, metaTagName, null);
+		if (updated.length === 0 && !removedInline) return false;
+
+		this.events.trigger("metatag-removed", file, metaTagName);
+		return true;
+	}
+
+	/**
+	 * Returns the frontmatter tags as written, without normalizing them.
+	 */
+	getFrontmatterTagList(frontmatter: any): string[] {
+		const tags = frontmatter?.tags;
+		if (!tags) return [];
+		return Array.isArray(tags) ? [...tags] : [tags];
+	}
+
+	/**
+	 * Replaces a tag in a frontmatter tag list, or removes it when newTag is null.
+	 * Tags written with a leading `#` keep it.
+	 */
+	replaceTagInList(tags: string[], oldTag: string, newTag: string | null): string[] {
+		const result: string[] = [];
+		for (const tag of tags) {
+			const hasHash = typeof tag === "string" && tag.startsWith("#");
+			const normalized = hasHash ? tag.substring(1) : tag;
+			if (normalized !== oldTag) {
+				result.push(tag);
+			} else if (newTag !== null && !result.includes(newTag)) {
+				result.push(hasHash ? `#${newTag}` : newTag);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Queues new notes for the auto-apply rules.
+	 */
+	onFileCreated(file: TAbstractFile) {
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+		if (this.settings.autoApplyRules.length === 0) return;
+
+		// Rules need the note's tags, so they run once the metadata cache has it
+		this.pendingAutoApply.add(file.path);
+	}
+
+	/**
+	 * Adds the MetaTags of every auto-apply rule the note matches.
+	 */
+	async applyAutoApplyRules(file: TFile, batch?: JournalBatch): Promise<boolean> {
+		if (this.settings.autoApplyRules.length === 0 || file.extension !== "md") return false;
+		if (await this.isTemplateFile(file)) return false;
+
+		const tags = this.getAllTags(file);
+		const metaTagNames = getAutoApplyMetaTags(this.settings.autoApplyRules, {
+			path: file.path,
+			basename: file.basename,
+			tags,
+		}).filter((name) => !tags.includes(`${this.settings.tagBase}/${name}`));
+		if (metaTagNames.length === 0) return false;
+
+		return await this.addMetaTagsToNote(file, metaTagNames, batch);
+	}
+
+	async bulkApplyAutoApplyRules() {
+		if (this.settings.autoApplyRules.length === 0) {
+			new Notice("MetaTags: no auto-apply rules are configured");
+			return;
+		}
+
+		await this.runBulkOperation(
+			"Apply MetaTag rules",
+			this.app.vault.getMarkdownFiles(),
+			"tag-added",
+			(file, batch) => this.applyAutoApplyRules(file, batch)
+		);
+	}
+
+	async exportTemplateBundle(templateNames: string[], format: BundleFormat, path: string) {
+		const bundle: TemplateBundle = {
+			version: BUNDLE_VERSION,
+			exportedAt: new Date().toISOString(),
+			settings: {
+				tagBase: this.settings.tagBase,
+				templatePriority: this.settings.templatePriority,
+				inheritFolderTemplates: this.settings.inheritFolderTemplates,
+				deleteEmptyMetatagProperties: this.settings.deleteEmptyMetatagProperties,
+				templateOnlyKeys: this.settings.templateOnlyKeys,
+			},
+			templates: [],
+		};
+		for (const name of templateNames) {
+			const templateFile = await this.getTemplateFileByName(name);
+			if (templateFile) {
+				bundle.templates.push({ name, content: await this.app.vault.read(templateFile) });
+			}
+		}
+
+		const bundlePath = normalizePath(path);
+		const content = serializeBundle(bundle, format);
+		const existing = this.app.vault.getAbstractFileByPath(bundlePath);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.ensureFolder(bundlePath);
+			await this.app.vault.create(bundlePath, content);
+		}
+		new Notice(`MetaTags: exported ${bundle.templates.length} template(s) to ${bundlePath}`);
+	}
+
+	async importTemplateBundle(bundleFile: TFile) {
+		let bundle: TemplateBundle;
+		try {
+			bundle = parseBundle(await this.app.vault.read(bundleFile));
+		} catch (e) {
+			if (!(e instanceof BundleParseError)) throw e;
+			new Notice(`MetaTags: "${bundleFile.path}" is not a template bundle: ${e.message}`);
+			return;
+		}
+
+		const bundleTagBase = bundle.settings.tagBase ?? this.settings.tagBase;
+		const imports: TemplateImport[] = [];
+		for (const template of bundle.templates) {
+			const existing = await this.getTemplateFileByName(template.name);
+			const content = this.adaptBundledTemplate(template.content, bundleTagBase, this.settings.tagBase);
+			imports.push(
+				planTemplateImport(
+					{ name: template.name, content },
+					existing ? await this.app.vault.read(existing) : null
+				)
+			);
+		}
+
+		// The bundled tag base only translates the templates above. Changing this
+		// vault's tag base means rewriting its tags, which the settings tab does.
+		const importedSettings: BundleSettings = { ...bundle.settings };
+		delete importedSettings.tagBase;
+		const settingChanges = (Object.keys(importedSettings) as (keyof BundleSettings)[])
+			.filter((key) => !isSameValue(importedSettings[key], this.settings[key]))
+			.map((key) => `${key}: ${formatFrontmatterValue(importedSettings[key])}`);
+
+		new ImportBundleModal(this.app, imports, settingChanges, async (selected, applySettings) => {
+			if (applySettings) {
+				Object.assign(this.settings, importedSettings);
+				await this.saveSettings();
+			}
+
+			for (const { template } of selected) {
+				const original = bundle.templates.find((item) => item.name === template.name);
+				const content = this.adaptBundledTemplate(
+					original ? original.content : template.content,
+					bundleTagBase,
+					this.settings.tagBase
+				);
+				await this.writeTemplateFile(template.name, content);
+			}
+			new Notice(`MetaTags: imported ${selected.length} template(s)`);
+		}).open();
+	}
+
+	/**
+	 * Rewrites tag base references of a bundled template for this vault. Without a
+	 * template folder, templates are recognized by the tag base, so it is added.
+	 */
+	adaptBundledTemplate(content: string, fromTagBase: string, toTagBase: string): string {
+		const templateData = this.extractFrontmatter(content);
+		const newData = { ...templateData };
+
+		let tags = this.getFrontmatterTagList(templateData).map((tag) =>
+			tag === fromTagBase ? toTagBase : tag
+		);
+		if (!this.getTemplateFolderPath() && !tags.includes(toTagBase)) {
+			tags = [toTagBase, ...tags];
+		}
+		if (tags.length > 0) newData.tags = tags;
+
+		if (fromTagBase !== toTagBase && templateData.extends) {
+			const parents: unknown[] = Array.isArray(templateData.extends)
+				? templateData.extends
+				: [templateData.extends];
+			const renamed = parents.map((parent) =>
+				typeof parent === "string" ? parent.replace(`${fromTagBase}/`, `${toTagBase}/`) : parent
+			);
+			newData.extends = Array.isArray(templateData.extends) ? renamed : renamed[0];
+		}
+
+		if (isSameValue(newData, templateData)) return content;
+		try {
+			return updateFrontmatter(content, newData);
+		} catch (e) {
+			console.warn("MetaTags: could not adapt a bundled template", e);
+			return content;
+		}
+	}
+
+	async writeTemplateFile(templateName: string, content: string) {
+		const existing = await this.getTemplateFileByName(templateName);
+		if (existing) {
+			await this.app.vault.modify(existing, content);
+			return;
+		}
+
+		const path = this.getNewTemplatePath(templateName);
+		await this.ensureFolder(path);
+		const file = await this.app.vault.create(path, content);
+		this.setTemplateCacheEntry(file.path, {});
+	}
+
+	/**
+	 * Creates the parent folders of a path when they are missing.
+	 */
+	async ensureFolder(path: string) {
+		const folderPath = path.substring(0, path.lastIndexOf("/"));
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+	}
+
+	/**
+	 * Keeps the caches in sync with renamed files and offers to rewrite the
+	 * MetaTag of every note tagged with a renamed template.
+	 */
+	async onFileRenamed(file: TAbstractFile, oldPath: string) {
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+
+		this.syncQueue.rename(oldPath, file.path);
+		this.index.renameNote(oldPath, file.path);
+
+		const cachedTags = this.fileTagCache.get(oldPath);
+		if (cachedTags) {
+			this.fileTagCache.delete(oldPath);
+			this.fileTagCache.set(file.path, cachedTags);
+		}
+
+		const wasTemplate = this.templateCache.has(oldPath);
+		const templateData = this.templateCache.get(oldPath);
+		const templateSections = this.templateSectionCache.get(oldPath);
+		this.deleteTemplateCacheEntry(oldPath);
+		this.templateSectionCache.delete(oldPath);
+
+		const isTemplate = await this.isTemplateFile(file);
+		if (isTemplate) {
+			this.setTemplateCacheEntry(
+				file.path,
+				this.app.metadataCache.getFileCache(file)?.frontmatter || templateData || {}
+			);
+			this.templateSectionCache.set(file.path, templateSections || []);
+		}
+
+		if (!wasTemplate) {
+			if (!isTemplate) await this.applyAutoApplyRules(file);
+			return;
+		}
+
+		const oldName = this.getTemplateNameFromPath(oldPath);
+		if (!isTemplate) {
+			// Moved out of the template folder, which is the same as deleting it
+			await this.handleTemplateDeleted(oldName, templateData);
+			return;
+		}
+
+		const newName = this.getTemplateNameFromPath(file.path);
+		if (oldName !== newName) {
+			await this.handleTemplateRenamed(oldName, newName);
+		}
+	}
+
+	async onFileDeleted(file: TAbstractFile) {
+		if (!(file instanceof TFile)) return;
+
+		this.fileTagCache.delete(file.path);
+		this.index.removeNote(file.path);
+
+		if (!this.templateCache.has(file.path)) return;
+		const templateData = this.templateCache.get(file.path);
+		this.deleteTemplateCacheEntry(file.path);
+		this.templateSectionCache.delete(file.path);
+
+		await this.handleTemplateDeleted(this.getTemplateNameFromPath(file.path), templateData);
+	}
+
+	getNotesWithMetaTag(metaTagName: string): TFile[] {
+		return this.getFilesWithTag(`${this.settings.tagBase}/${metaTagName}`).filter(
+			(file) => !this.templateCache.has(file.path)
+		);
+	}
+
+	getFilesWithTag(tag: string): TFile[] {
+		return this.index
+			.getNotesWithTag(tag)
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+	}
+
+	setTemplateCacheEntry(path: string, templateData: any) {
+		this.templateCache.set(path, templateData);
+		this.index.setTemplate(this.getTemplateNameFromPath(path), path);
+	}
+
+	deleteTemplateCacheEntry(path: string) {
+		this.templateCache.delete(path);
+		this.index.removeTemplate(path);
+	}
+
+	async handleTemplateRenamed(oldName: string, newName: string) {
+		const oldTag = `${this.settings.tagBase}/${oldName}`;
+		const newTag = `${this.settings.tagBase}/${newName}`;
+		const notes = this.getNotesWithMetaTag(oldName);
+		const childTemplates = [...this.templateCache.entries()]
+			.filter(([, data]) => this.getTemplateParentNames(data).includes(oldName))
+			.map(([path]) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+
+		if (notes.length === 0 && childTemplates.length === 0) return;
+
+		const details = [`${notes.length} note(s) tagged ${oldTag}`];
+		if (childTemplates.length > 0) {
+			details.push(`${childTemplates.length} template(s) extending "${oldName}"`);
+		}
+
+		new ChoiceModal(
+			this.app,
+			"MetaTag template renamed",
+			`"${oldName}" was renamed to "${newName}". Rewrite ${oldTag} to ${newTag}?`,
+			[
+				{ text: "Leave as is", onChoose: () => {} },
+				{
+					text: "Rewrite",
+					cta: true,
+					onChoose: () =>
+						this.renameMetaTag(oldName, newName, [...notes, ...childTemplates]),
+				},
+			],
+			details
+		).open();
+	}
+
+	/**
+	 * Rewrites a MetaTag in note tags and in the `extends` key of templates.
+	 */
+	async renameMetaTag(oldName: string, newName: string, files: TFile[]) {
+		const oldTag = `${this.settings.tagBase}/${oldName}`;
+		const newTag = `${this.settings.tagBase}/${newName}`;
+
+		await this.runBulkOperation(
+			`Rename ${oldTag} to ${newTag}`,
+			files,
+			"template-renamed",
+			async (file, batch) => {
+				const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+				const newData = { ...noteData };
+
+				if (this.getAllTags(file).includes(oldTag)) {
+					this.replaceMetaTagInFrontmatter(noteData, newData, oldName, newName);
+					// The tag is renamed, not added or removed, so onMetadataChanged must skip it
+					this.fileTagCache.set(
+						file.path,
+						this.getAllTags(file).map((tag) => (tag === oldTag ? newTag : tag))
+					);
+				}
+
+				if (this.getTemplateParentNames(noteData).includes(oldName)) {
+					const parents = Array.isArray(noteData.extends)
+						? noteData.extends
+						: [noteData.extends];
+					newData.extends = parents.map((parent: any) =>
+						typeof parent === "string" &&
+						this.getTemplateParentNames({ extends: parent })[0] === oldName
+							? this.renameTemplateReference(parent, newName)
+							: parent
+					);
+					if (!Array.isArray(noteData.extends)) newData.extends = newData.extends[0];
+				}
+
+				const renamed = await this.applyFrontmatterChange(
+					{ file, before: noteData, after: newData },
+					batch
+				);
+				const renamedInline = await this.replaceInlineMetaTag(file, oldName, newName);
+				return renamed || renamedInline;
+			}
+		);
+	}
+
+	/**
+	 * Asks before changing the tag base, since every MetaTag in the vault has to be
+	 * rewritten with it. Calls onDone once the tags are rewritten.
+	 */
+	changeTagBase(value: string, onDone?: () => void) {
+		const oldTagBase = this.settings.tagBase;
+		const newTagBase = stripHash(value.trim()).replace(/\/+$/, "");
+		if (!newTagBase || newTagBase === oldTagBase) return;
+		if (/\s/.test(newTagBase)) {
+			new Notice("MetaTags: the tag base cannot contain spaces");
+			return;
+		}
+
+		const files = this.app.vault.getMarkdownFiles().filter((file) => {
+			const { change, inlineTags } = this.planTagBaseChange(file, oldTagBase, newTagBase);
+			return hasFrontmatterChanges(change) || inlineTags.length > 0;
+		});
+
+		new ChoiceModal(
+			this.app,
+			"Change tag base",
+			`Change the tag base from "${oldTagBase}" to "${newTagBase}" and rewrite ${oldTagBase}/… tags to ${newTagBase}/…?`,
+			[
+				{ text: "Cancel", onChoose: () => {} },
+				{
+					text: "Rewrite",
+					cta: true,
+					onChoose: async () => {
+						await this.rebaseMetaTags(oldTagBase, newTagBase, files);
+						onDone?.();
+					},
+				},
+			],
+			[`${files.length} note(s) and template(s) use ${oldTagBase}`]
+		).open();
+	}
+
+	/**
+	 * Switches the tag base setting and rewrites the given files to match.
+	 */
+	async rebaseMetaTags(oldTagBase: string, newTagBase: string, files: TFile[]) {
+		this.settings.tagBase = newTagBase;
+		await this.saveSettings();
+
+		await this.runBulkOperation(
+			`Change tag base from ${oldTagBase} to ${newTagBase}`,
+			files,
+			"tag-base-changed",
+			async (file, batch) => {
+				const { change, inlineTags } = this.planTagBaseChange(file, oldTagBase, newTagBase);
+
+				// The MetaTags keep their templates, so onMetadataChanged must not see them change
+				this.fileTagCache.set(
+					file.path,
+					(this.fileTagCache.get(file.path) || []).map((tag) =>
+						this.rebaseTag(tag, oldTagBase, newTagBase)
+					)
+				);
+
+				const rewritten = await this.applyFrontmatterChange(change, batch);
+				const rewrittenInline =
+					inlineTags.length > 0 &&
+					(await this.writeNoteBody(file, (body) =>
+						inlineTags.reduce(
+							(result, tag) =>
+								replaceInlineTag(result, tag, this.rebaseTag(tag, oldTagBase, newTagBase)),
+							body
+						)
+					));
+				return rewritten || rewrittenInline;
+			}
+		);
+	}
+
+	/**
+	 * Plans moving a file's tags, `metatags` entries and `extends` references to a
+	 * new tag base. Inline tags are returned separately, since they live in the body.
+	 */
+	planTagBaseChange(
+		file: TFile,
+		oldTagBase: string,
+		newTagBase: string
+	): { change: FrontmatterChange; inlineTags: string[] } {
+		const fileCache = this.app.metadataCache.getFileCache(file);
+		const noteData = fileCache?.frontmatter || {};
+		const newData = { ...noteData };
+
+		const rebase = (value: unknown) =>
+			typeof value === "string" ? this.rebaseTag(value, oldTagBase, newTagBase) : value;
+		for (const key of ["tags", META_TAG_PROPERTY, "extends"]) {
+			if (!(key in noteData)) continue;
+			newData[key] = Array.isArray(noteData[key]) ? noteData[key].map(rebase) : rebase(noteData[key]);
+		}
+
+		const inlineTags = (fileCache?.tags || [])
+			.map((tagCache) => stripHash(tagCache.tag))
+			.filter((tag) => this.rebaseTag(tag, oldTagBase, newTagBase) !== tag);
+
+		return {
+			change: { file, before: noteData, after: newData },
+			inlineTags: [...new Set(inlineTags)],
+		};
+	}
+
+	/**
+	 * Moves a tag under a new tag base, e.g. `#mt/book` to `#meta/book`. Other tags
+	 * are returned as they are.
+	 */
+	rebaseTag(tag: string, oldTagBase: string, newTagBase: string): string {
+		const hash = tag.startsWith("#") ? "#" : "";
+		const name = stripHash(tag);
+		if (name === oldTagBase) return `${hash}${newTagBase}`;
+		if (name.startsWith(`${oldTagBase}/`)) {
+			return `${hash}${newTagBase}${name.substring(oldTagBase.length)}`;
+		}
+		return tag;
+	}
+
+	/**
+	 * Points an `extends` entry at a new template name, keeping the way it was written.
+	 */
+	renameTemplateReference(reference: string, newName: string): string {
+		const trimmed = reference.trim();
+		if (trimmed.startsWith("[[")) return `[[${newName}]]`;
+
+		const hash = trimmed.startsWith("#") ? "#" : "";
+		const withoutHash = hash ? trimmed.substring(1) : trimmed;
+		return this.isMetaTag(withoutHash)
+			? `${hash}${this.settings.tagBase}/${newName}`
+			: `${hash}${newName}`;
+	}
+
+	/**
+	 * Offers to detach or clean up the notes that were tagged with a deleted template.
+	 */
+	async handleTemplateDeleted(metaTagName: string, templateData: any) {
+		const tag = `${this.settings.tagBase}/${metaTagName}`;
+		const notes = this.getNotesWithMetaTag(metaTagName);
+		if (notes.length === 0) return;
+
+		new ChoiceModal(
+			this.app,
+			"MetaTag template deleted",
+			`The template "${metaTagName}" no longer exists, but ${notes.length} note(s) are still tagged ${tag}.`,
+			[
+				{ text: "Keep tags", onChoose: () => {} },
+				{
+					text: "Remove tag",
+					onChoose: () => this.detachMetaTag(metaTagName, notes, null),
+				},
+				{
+					text: "Remove tag and empty properties",
+					warning: true,
+					onChoose: () => this.detachMetaTag(metaTagName, notes, templateData || {}),
+				},
+			]
+		).open();
+	}
+
+	/**
+	 * Removes a MetaTag from notes. When template data is given, the template's
+	 * properties that are still empty in a note are removed as well.
+	 */
+	async detachMetaTag(metaTagName: string, files: TFile[], templateData: any | null) {
+		const tag = `${this.settings.tagBase}/${metaTagName}`;
+
+		await this.runBulkOperation(
+			`Remove ${tag} from ${files.length} note(s)`,
+			files,
+			"template-deleted",
+			async (file, batch) => {
+				const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+				const newData = { ...noteData };
+				this.replaceMetaTagInFrontmatter(noteData, newData, metaTagName, null);
+
+				if (templateData) {
+					for (const prop of this.getTemplatePropertyNames(templateData)) {
+						if (prop in newData && isEmptyValue(newData[prop])) {
+							delete newData[prop];
+						}
+					}
+				}
+
+				this.fileTagCache.set(
+					file.path,
+					this.getAllTags(file).filter((noteTag) => noteTag !== tag)
+				);
+
+				const removedFromFrontmatter = await this.applyFrontmatterChange(
+					{ file, before: noteData, after: newData },
+					batch
+				);
+				const removed =
+					(await this.replaceInlineMetaTag(file, metaTagName, null)) || removedFromFrontmatter;
+				if (removed) {
+					this.events.trigger("metatag-removed", file, metaTagName);
+				}
+				return removed;
+			}
+		);
+	}
+
+	async activateAuditView() {
+		let leaf = this.app.workspace.getLeavesOfType(AUDIT_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: AUDIT_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Compares every note carrying a MetaTag with its templates: which template
+	 * properties it lacks, which properties no template defines, which MetaTags
+	 * have no template and how many notes use each template.
+	 */
+	async auditMetaTags(): Promise<MetaTagAudit> {
+		this.reportedTemplateCycles.clear();
+
+		const templates = new Map<string, TemplateAudit>();
+		const templateProps = new Map<string, string[]>();
+		for (const [path] of this.templateCache) {
+			const name = this.getTemplateNameFromPath(path);
+			const templateFile = this.app.vault.getAbstractFileByPath(path);
+			templateProps.set(
+				name,
+				this.getTemplatePropertyNames(await this.resolveTemplateData(name))
+			);
+			templates.set(name, {
+				name,
+				file: templateFile instanceof TFile ? templateFile : null,
+				notes: [],
+				missing: [],
+				extra: [],
+			});
+		}
+
+		// The property holding the MetaTags belongs to every tagged note
+		const noteKeys =
+			this.settings.metaTagSource === "property"
+				? [...STANDARD_NOTE_KEYS, META_TAG_PROPERTY]
+				: STANDARD_NOTE_KEYS;
+		const unknownTags = new Map<string, TFile[]>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (this.templateCache.has(file.path)) continue;
+
+			const metaTagNames = this.getAllTags(file)
+				.filter((tag) => this.isMetaTag(tag))
+				.map((tag) => this.getMetaTagName(tag));
+			if (metaTagNames.length === 0) continue;
+
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			const knownNames = metaTagNames.filter((name) => templates.has(name));
+			for (const name of metaTagNames.filter((name) => !templates.has(name))) {
+				unknownTags.set(name, [...(unknownTags.get(name) || []), file]);
+			}
+
+			const allowedProps = new Set(knownNames.flatMap((name) => templateProps.get(name) || []));
+			const extraProps = Object.keys(frontmatter).filter(
+				(key) => !allowedProps.has(key) && !noteKeys.includes(key)
+			);
+
+			for (const name of knownNames) {
+				const templateAudit = templates.get(name) as TemplateAudit;
+				templateAudit.notes.push(file);
+
+				const missingProps = (templateProps.get(name) || []).filter(
+					(prop) => !(prop in frontmatter)
+				);
+				if (missingProps.length > 0) {
+					templateAudit.missing.push({ file, properties: missingProps });
+				}
+				if (extraProps.length > 0) {
+					templateAudit.extra.push({ file, properties: extraProps });
+				}
+			}
+		}
+
+		return {
+			templates: [...templates.values()].sort(
+				(a, b) => b.notes.length - a.notes.length || a.name.localeCompare(b.name)
+			),
+			unknownTags: [...unknownTags.entries()]
+				.map(([name, notes]) => ({ name, notes }))
+				.sort((a, b) => b.notes.length - a.notes.length),
+		};
+	}
+
+	async resyncNote(file: TFile, metaTagNames?: string[]): Promise<TFile[]> {
+		const change = await this.planNoteResync(file, metaTagNames);
+		const updated = await this.applyFrontmatterChanges(
+			[change],
+			"template-sync",
+			`Re-synced ${file.basename}`
+		);
+		this.reportMigrationProblems([change]);
+		return updated;
+	}
+
+	/**
+	 * Writes the full state of a template to every note carrying its MetaTag,
+	 * without a preview.
+	 */
+	async syncTemplate(metaTagName: string): Promise<TFile[]> {
+		const templateFile = await this.getTemplateFileByName(metaTagName);
+		if (!templateFile) return [];
+
+		const changes = await this.planFullTemplateSync(templateFile);
+		const updated = await this.applyFrontmatterChanges(
+			changes,
+			"template-sync",
+			`Synced template "${metaTagName}"`
+		);
+		this.reportMigrationProblems(changes);
+		this.events.trigger("template-synced", metaTagName, updated);
+		return updated;
+	}
+
+	async removeProperties(file: TFile, properties: string[]) {
+		const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const newData = { ...noteData };
+		for (const prop of properties) {
+			delete newData[prop];
+		}
+
+		await this.applyFrontmatterChanges(
+			[{ file, before: noteData, after: newData }],
+			"template-sync",
+			`Removed ${properties.join(", ")} from ${file.basename}`
+		);
+	}
+
+	/**
+	 * Creates an empty template for a MetaTag and opens it.
+	 */
+	async createTemplate(metaTagName: string, frontmatter: any = {}): Promise<TFile | null> {
+		const templateFolderPath = this.getTemplateFolderPath();
+		const path = this.getNewTemplatePath(metaTagName);
+		if (this.app.vault.getAbstractFileByPath(path)) {
+			new Notice(`MetaTags: "${path}" already exists`);
+			return null;
+		}
+
+		// Nested MetaTags live in subfolders of the template folder
+		await this.ensureFolder(path);
+
+		// Without a template folder, templates are recognized by the tag base
+		const templateData = templateFolderPath
+			? { ...frontmatter }
+			: { tags: [this.settings.tagBase], ...frontmatter };
+		const file = await this.app.vault.create(path, updateFrontmatter("", templateData));
+		this.setTemplateCacheEntry(file.path, {});
+
+		await this.app.workspace.getLeaf(false).openFile(file);
+		return file;
+	}
+
+	/**
+	 * Copies a template, body included, to a new name and opens the copy.
+	 */
+	async duplicateTemplate(metaTagName: string, newName: string): Promise<TFile | null> {
+		const templateFile = await this.getTemplateFileByName(metaTagName);
+		if (!templateFile) return null;
+
+		const path = this.getNewTemplatePath(newName);
+		if (this.app.vault.getAbstractFileByPath(path)) {
+			new Notice(`MetaTags: "${path}" already exists`);
+			return null;
+		}
+
+		await this.ensureFolder(path);
+		const file = await this.app.vault.create(path, await this.app.vault.read(templateFile));
+		this.setTemplateCacheEntry(file.path, {});
+
+		await this.app.workspace.getLeaf(false).openFile(file);
+		return file;
+	}
+
+	/**
+	 * Where a template of the given name is created: inside the template folder,
+	 * or at the vault root when there is none.
+	 */
+	getNewTemplatePath(metaTagName: string): string {
+		const templateFolderPath = this.getTemplateFolderPath();
+		return normalizePath(
+			templateFolderPath ? `${templateFolderPath}/${metaTagName}.md` : `${metaTagName}.md`
+		);
+	}
+
+	/**
+	 * Turns a template name typed by the user, e.g. `#mt/book` or `book.md`, into `book`.
+	 */
+	normalizeTemplateName(value: string): string {
+		const name = stripHash(value.trim()).replace(/\.md$/, "").replace(/^\/+|\/+$/g, "");
+		return this.isMetaTag(name) ? this.getMetaTagName(name) : name;
+	}
+
+	/**
+	 * Opens the template picker with a preview of the properties each template adds.
+	 */
+	async openTemplatePicker(
+		templateNames: string[],
+		onChoose: (templateName: string) => void,
+		placeholder?: string
+	) {
+		this.reportedTemplateCycles.clear();
+		const previews = new Map<string, any>();
+		for (const name of templateNames) {
+			const templateData = await this.resolveTemplateData(name);
+			const preview: any = {};
+			for (const prop of this.getTemplatePropertyNames(templateData)) {
+				preview[prop] = templateData[prop];
+			}
+			previews.set(name, preview);
+		}
+
+		const modal = new TemplateSuggestModal(this.app, templateNames, onChoose, previews);
+		if (placeholder) modal.setPlaceholder(placeholder);
+		modal.open();
+	}
+	
+	/**
+	 * Rewrites the frontmatter keys that differ from `newData`, leaving the rest
+	 * of the note untouched. Throws a FrontmatterParseError on invalid YAML.
+	 */
+	replaceFrontMatter(content: string, newData: any): string {
+		return updateFrontmatter(content, newData);
+	}
+
+	/**
+	 * Returns a note's tags without `#`. MetaTags only count when they come from the
+	 * configured source; ones from the `metatags` property are listed as `tagBase/name`.
+	 */
+	getAllTags(file: TFile): string[] {
+		const fileCache = this.app.metadataCache.getFileCache(file);
+		const frontmatterTags = this.getAllTagsFromFrontmatter(fileCache?.frontmatter);
+		// The tag cache only holds inline tags
+		const inlineTags = (fileCache?.tags || []).map((tagCache) => stripHash(tagCache.tag));
+
+		let tags = [...inlineTags, ...frontmatterTags];
+		if (this.settings.metaTagSource === "frontmatter") {
+			tags = tags.filter((tag) => !this.isMetaTag(tag) || frontmatterTags.includes(tag));
+		} else if (this.settings.metaTagSource === "property") {
+			tags = [
+				...tags.filter((tag) => !this.isMetaTag(tag)),
+				...this.getMetaTagPropertyNames(fileCache?.frontmatter).map(
+					(name) => `${this.settings.tagBase}/${name}`
+				),
+			];
+		}
+
+		// Remove duplicates
+		return [...new Set(tags)];
+	}
+
+	/**
+	 * Returns the names of the MetaTags a note carries in the configured source.
+	 */
+	getNoteMetaTagNames(file: TFile): string[] {
+		return this.getAllTags(file)
+			.filter((tag) => this.isMetaTag(tag))
+			.map((tag) => this.getMetaTagName(tag));
+	}
+
+	/**
+	 * Reads the MetaTag names listed in the `metatags` property, written as `book`,
+	 * `mt/book` or `#mt/book`.
+	 */
+	getMetaTagPropertyNames(frontmatter: any): string[] {
+		return getPropertyList(frontmatter, META_TAG_PROPERTY)
+			.filter((name) => typeof name === "string")
+			.map((name) => stripHash(name.trim()))
+			.map((name) => (this.isMetaTag(name) ? this.getMetaTagName(name) : name))
+			.filter((name) => name.length > 0);
+	}
+
+	/**
+	 * Adds MetaTags to the frontmatter key of the configured source.
+	 */
+	addMetaTagsToFrontmatter(noteData: any, newData: any, metaTagNames: string[]) {
+		if (this.settings.metaTagSource === "property") {
+			newData[META_TAG_PROPERTY] = [
+				...getPropertyList(noteData, META_TAG_PROPERTY),
+				...metaTagNames,
+			];
+		} else {
+			newData.tags = [
+				...this.getFrontmatterTagList(noteData),
+				...metaTagNames.map((name) => `${this.settings.tagBase}/${name}`),
+			];
+		}
+	}
+
+	/**
+	 * Renames a MetaTag in the frontmatter tags and the `metatags` property, or
+	 * removes it when newName is null.
+	 */
+	replaceMetaTagInFrontmatter(noteData: any, newData: any, oldName: string, newName: string | null) {
+		const oldTag = `${this.settings.tagBase}/${oldName}`;
+		if (this.getAllTagsFromFrontmatter(noteData).includes(oldTag)) {
+			newData.tags = this.replaceTagInList(
+				this.getFrontmatterTagList(noteData),
+				oldTag,
+				newName === null ? null : `${this.settings.tagBase}/${newName}`
+			);
+		}
+
+		if (this.getMetaTagPropertyNames(noteData).includes(oldName)) {
+			const names: string[] = [];
+			for (const entry of getPropertyList(noteData, META_TAG_PROPERTY)) {
+				if (this.getMetaTagPropertyNames({ [META_TAG_PROPERTY]: entry })[0] !== oldName) {
+					names.push(entry);
+				} else if (newName !== null && !names.includes(newName)) {
+					names.push(newName);
+				}
+			}
+			newData[META_TAG_PROPERTY] = names;
+		}
+	}
+
+	/**
+	 * Renames or removes a MetaTag written inline in the note body. Only done when
+	 * inline tags count as MetaTags. Body changes are not recorded in the undo journal.
+	 */
+	async replaceInlineMetaTag(file: TFile, oldName: string, newName: string | null): Promise<boolean> {
+		if (this.settings.metaTagSource !== "inline") return false;
+
+		const oldTag = `${this.settings.tagBase}/${oldName}`;
+		const inlineTags = this.app.metadataCache.getFileCache(file)?.tags || [];
+		if (!inlineTags.some((tagCache) => stripHash(tagCache.tag) === oldTag)) return false;
+
+		return await this.writeNoteBody(file, (body) =>
+			replaceInlineTag(
+				body,
+				oldTag,
+				newName === null ? null : `${this.settings.tagBase}/${newName}`
+			)
+		);
+	}
+
+	/**
+	 * Moves the MetaTags of every note into the configured source. MetaTags found in
+	 * the frontmatter tags, inline or in the `metatags` property are all collected.
+	 */
+	async migrateMetaTagSource() {
+		const source = this.settings.metaTagSource;
+		const notes: TFile[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!(await this.isTemplateFile(file))) notes.push(file);
+		}
+
+		await this.runBulkOperation(
+			`Move MetaTags to ${META_TAG_SOURCES[source].toLowerCase()}`,
+			notes,
+			"tag-source",
+			async (file, batch) => {
+				const fileCache = this.app.metadataCache.getFileCache(file);
+				const noteData = fileCache?.frontmatter || {};
+				const frontmatterNames = this.getAllTagsFromFrontmatter(noteData)
+					.filter((tag) => this.isMetaTag(tag))
+					.map((tag) => this.getMetaTagName(tag));
+				const inlineNames = (fileCache?.tags || [])
+					.map((tagCache) => stripHash(tagCache.tag))
+					.filter((tag) => this.isMetaTag(tag))
+					.map((tag) => this.getMetaTagName(tag));
+				const propertyNames = this.getMetaTagPropertyNames(noteData);
+
+				const allNames = [...new Set([...frontmatterNames, ...inlineNames, ...propertyNames])];
+				if (allNames.length === 0) return false;
+
+				const newData = { ...noteData };
+				let movedInline: string[] = [];
+				if (source === "property") {
+					for (const name of frontmatterNames) {
+						this.replaceMetaTagInFrontmatter(noteData, newData, name, null);
+					}
+					const missing = allNames.filter((name) => !propertyNames.includes(name));
+					if (missing.length > 0) this.addMetaTagsToFrontmatter(noteData, newData, missing);
+					movedInline = inlineNames;
+				} else {
+					delete newData[META_TAG_PROPERTY];
+					const keptInline = source === "inline" ? inlineNames : [];
+					const missing = allNames.filter(
+						(name) => !frontmatterNames.includes(name) && !keptInline.includes(name)
+					);
+					if (missing.length > 0) {
+						newData.tags = [
+							...this.getFrontmatterTagList(noteData),
+							...missing.map((name) => `${this.settings.tagBase}/${name}`),
+						];
+					}
+					movedInline = source === "inline" ? [] : inlineNames;
+				}
+
+				// The MetaTags only move, so onMetadataChanged must not apply or remove templates
+				this.fileTagCache.set(file.path, [
+					...new Set([
+						...this.getAllTags(file).filter((tag) => !this.isMetaTag(tag)),
+						...allNames.map((name) => `${this.settings.tagBase}/${name}`),
+					]),
+				]);
+
+				const moved = await this.applyFrontmatterChange(
+					{ file, before: noteData, after: newData },
+					batch
+				);
+				const movedFromBody =
+					movedInline.length > 0 &&
+					(await this.writeNoteBody(file, (body) =>
+						movedInline.reduce(
+							(result, name) =>
+								replaceInlineTag(result, `${this.settings.tagBase}/${name}`, null),
+							body
+						)
+					));
+				return moved || movedFromBody;
+			}
+		);
+	}
+
+	isMetaTag(tag: string): boolean {
+		return tag.startsWith(`${this.settings.tagBase}/`);
 	}
 
 	getMetaTagName(tag: string): string {
@@ -532,29 +2895,12 @@ export default class MetaTagsPlugin extends Plugin {
 	}
 
 	async applyMetaTagAttributes(file: TFile) {
-		const metadata = this.app.metadataCache.getFileCache(file);
-		const tags = metadata?.frontmatter?.tags;
-		if (!tags) return;
-	  
-		const metaTag = tags.find((tag: any) => tag.startsWith(`${this.settings.tagBase}/`));
-		if (!metaTag) return;
-	  
-		// Extract the template name from the tag
-		const templateName = metaTag.split('/')[1];
-		const templateFile = this.app.vault.getAbstractFileByPath(`${this.settings.tagBase}/${templateName}.md`);
-		if (!templateFile || !(templateFile instanceof TFile)) return;
-	  
-		// Get properties from the template
-		const templateContent = await this.app.vault.read(templateFile);
-		const templateProperties = this.extractFrontmatter(templateContent);
-	  
-		// Apply attributes to properties in the note
-		this.addMetaTagAttributesToProperties(file, templateProperties);
-	  }
+		await this.updateMetaTagAttributes(file);
+	}
 
 	async updateMetaTagAttributes(file: TAbstractFile) {
 		if (!(file instanceof TFile)) return;
-		if (!this.isCurrentFile(file)) return;
+		if (this.getMarkdownViews(file).length === 0) return;
 	
 		const isTemplate = await this.isTemplateFile(file);
 	
@@ -563,90 +2909,345 @@ export default class MetaTagsPlugin extends Plugin {
 			return;
 		}
 	
-		const metadata = this.app.metadataCache.getFileCache(file);
-		const tags = metadata?.frontmatter?.tags;
-	
-		if (!tags) return;
-	
-		const metaTag = tags.find((tag: any) =>
-			tag.startsWith(`${this.settings.tagBase}/`)
+		const metaTagNames: string[] = [];
+		for (const name of this.getNoteMetaTagNames(file)) {
+			if (await this.getTemplateFileByName(name)) metaTagNames.push(name);
+		}
+
+		if (metaTagNames.length === 0) {
+			this.removeMetaTagAttributesFromProperties(file);
+			return;
+		}
+
+		const merged = await this.mergeNoteTemplates(
+			metaTagNames,
+			async (file) => this.extractFrontmatter(await this.app.vault.read(file))
 		);
-		const templateName = metaTag?.split('/')[1];
-	
-		if (templateName) {
-			const templateFile = await this.getTemplateFileByName(templateName);
-			if (templateFile) {
-				const templateContent = await this.app.vault.read(templateFile);
-				const templateProperties = this.extractFrontmatter(templateContent);
-				this.addMetaTagAttributesToProperties(file, templateProperties);
-			} else {
-				this.removeMetaTagAttributesFromProperties(file);
+		this.addMetaTagAttributesToProperties(
+			file,
+			merged,
+			await this.validateNote(file),
+			Object.keys(await this.getLockedProperties(file))
+		);
+	}
+
+	/**
+	 * Validates a note's frontmatter against the schemas of all its MetaTag templates.
+	 */
+	async validateNote(file: TFile): Promise<SchemaViolation[]> {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const metaTagNames = this.getNoteMetaTagNames(file);
+		if (metaTagNames.length === 0) return [];
+
+		const { schema } = await this.mergeNoteTemplates(metaTagNames);
+
+		return validateProperties(
+			frontmatter,
+			schema,
+			(linkText) => !!this.app.metadataCache.getFirstLinkpathDest(linkText, file.path)
+		);
+	}
+
+	/**
+	 * Returns the template values of the note's locked properties.
+	 */
+	async getLockedProperties(file: TFile): Promise<Record<string, any>> {
+		const { data, schema } = await this.mergeNoteTemplates(this.getNoteMetaTagNames(file));
+
+		const locked: Record<string, any> = {};
+		for (const [prop, definition] of Object.entries(schema)) {
+			if (definition.policy === "lock" && prop in data) {
+				locked[prop] = data[prop];
+			}
+		}
+		return locked;
+	}
+
+	/**
+	 * Warns once per edit when a locked property no longer matches its template.
+	 */
+	async warnAboutLockedPropertyEdits(file: TFile) {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const locked = await this.getLockedProperties(file);
+		const edited = Object.keys(locked).filter(
+			(prop) =>
+				prop in frontmatter &&
+				!hasPlaceholders(locked[prop]) &&
+				!isSameValue(frontmatter[prop], locked[prop])
+		);
+
+		const signature = edited.map((prop) => `${prop}=${JSON.stringify(frontmatter[prop])}`).join("|");
+		if (signature === (this.lockWarnings.get(file.path) || "")) return;
+		this.lockWarnings.set(file.path, signature);
+
+		if (edited.length > 0) {
+			new Notice(
+				`MetaTags: ${edited.join(", ")} ${edited.length === 1 ? "is" : "are"} locked by the template and will be reverted on the next sync.`
+			);
+		}
+	}
+
+	/**
+	 * Lists notes whose MetaTags define different defaults for the same property.
+	 */
+	async findMetaTagConflicts(): Promise<NoteReport[]> {
+		this.reportedTemplateCycles.clear();
+		const reports: NoteReport[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (await this.isTemplateFile(file)) continue;
+
+			const metaTagNames = this.getNoteMetaTagNames(file);
+			if (metaTagNames.length < 2) continue;
+
+			const merged = await this.mergeNoteTemplates(metaTagNames);
+			const templateProps = this.getTemplatePropertyNames(merged.data);
+			const messages = merged.conflicts
+				.filter((conflict) => templateProps.includes(conflict.property))
+				.map((conflict) => `${conflict.property}: ${this.describeConflict(conflict)}`);
+			if (messages.length > 0) {
+				reports.push({ file, messages });
+			}
+		}
+		return reports;
+	}
+
+	/**
+	 * Validates every note carrying a MetaTag and returns the notes with violations.
+	 */
+	async findSchemaViolations(): Promise<{ file: TFile; violations: SchemaViolation[] }[]> {
+		const results: { file: TFile; violations: SchemaViolation[] }[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (await this.isTemplateFile(file)) continue;
+
+			const violations = await this.validateNote(file);
+			if (violations.length > 0) {
+				results.push({ file, violations });
 			}
-		} else {
-			this.removeMetaTagAttributesFromProperties(file);
 		}
+		return results;
 	}
 
 		addMetaTagAttributesToTemplate(file: TFile) {
-			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!view) return;
+			for (const view of this.getMarkdownViews(file)) {
+				const elements = view.containerEl.querySelectorAll('.metadata-property');
+				elements.forEach((el) => {
+					const propertyKeyEl = el.querySelector('.metadata-property-key')
+					propertyKeyEl?.setAttribute('data-metatag', 'true'); // Add attribute to the parent
+				});
+			}
+		}
 
-			const elements = view.containerEl.querySelectorAll('.metadata-property');
-			elements.forEach((el) => {
-				const propertyKeyEl = el.querySelector('.metadata-property-key')
-				propertyKeyEl?.setAttribute('data-metatag', 'true'); // Add attribute to the parent
-			});
+		/**
+		 * Decorates every note open in a markdown view, in reading or editing mode.
+		 */
+		async updateOpenViewAttributes() {
+			const paths = new Set<string>();
+			for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+				const file = leaf.view instanceof MarkdownView ? leaf.view.file : null;
+				if (!file || paths.has(file.path)) continue;
+				paths.add(file.path);
+				await this.updateMetaTagAttributes(file);
+			}
+		}
+
+		/**
+		 * Returns the open markdown views showing a file, active or not.
+		 */
+		getMarkdownViews(file: TFile): MarkdownView[] {
+			return this.app.workspace
+				.getLeavesOfType('markdown')
+				.map((leaf) => leaf.view)
+				.filter(
+					(view): view is MarkdownView =>
+						view instanceof MarkdownView && view.file?.path === file.path
+				);
 		}
 	  
 	  
-		addMetaTagAttributesToProperties(file: TFile, templateProperties: any) {
-		  const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		  if (!view) return;
-		
-		  // Select all parent elements that contain the child with aria-label
-		  const elements = view.containerEl.querySelectorAll('.metadata-property');
-		  elements.forEach((el) => {
-			  // Find the child element with the aria-label
-			const propertyName = el.getAttribute('data-property-key')?.trim();
-			const propertyKeyEl = el.querySelector('.metadata-property-key')
-
-			if (propertyName && templateProperties.hasOwnProperty(propertyName)) {
-			  propertyKeyEl?.setAttribute('data-metatag', 'true'); // Add attribute to the parent
-			}
-		  });
-		}
-		
-		// Remove or set data-metatag="false" for all properties
-		removeMetaTagAttributesFromProperties(file: TFile) {
-		  const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		  if (!view) return;
+		/**
+		 * Marks template properties with the templates they come from, and flags
+		 * conflicting, invalid and locked ones. Missing required properties are listed
+		 * above the properties.
+		 */
+		addMetaTagAttributesToProperties(
+			file: TFile,
+			merged: MergedTemplates,
+			violations: SchemaViolation[],
+			lockedProps: string[]
+		) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			const templateProps = this.getTemplatePropertyNames(merged.data);
+			const missing = violations.filter((violation) => violation.kind === 'missing');
+
+			for (const view of this.getMarkdownViews(file)) {
+				const elements = view.containerEl.querySelectorAll('.metadata-property');
+				elements.forEach((el) => {
+					const propertyName = el.getAttribute('data-property-key')?.trim();
+					const propertyKeyEl = el.querySelector('.metadata-property-key');
+					if (!propertyName || !(propertyKeyEl instanceof HTMLElement)) return;
+
+					this.clearMetaTagAttributes(propertyKeyEl);
+					const tooltip: string[] = [];
+
+					if (templateProps.includes(propertyName)) {
+						const sources = merged.sources[propertyName] || [];
+						propertyKeyEl.setAttribute('data-metatag', 'true');
+						propertyKeyEl.setAttribute('data-metatag-source', sources.join(', '));
+						tooltip.push(`From template: ${sources.join(', ')}`);
+
+						const state = this.getDefaultState(frontmatter[propertyName], merged.data[propertyName]);
+						if (state) {
+							propertyKeyEl.setAttribute('data-metatag-default', state);
+							propertyKeyEl.createSpan({
+								cls: 'metatag-property-badge',
+								text: state === 'equal' ? '=' : '≠',
+							});
+							tooltip.push(
+								state === 'equal'
+									? 'Equals the template default'
+									: `Differs from the template default ${formatFrontmatterValue(merged.data[propertyName])} (right-click the badge to reset)`
+							);
+						}
+					}
 
-		  
-		  const elements = view.containerEl.querySelectorAll('.metadata-property-key[data-metatag="true"]');
-		  elements.forEach((el) => {
-			el.removeAttribute('data-metatag'); // Remove attribute
-			// Optionally set to false:
-			// el.setAttribute('data-metatag', 'false');
-		  });
+					const conflict = merged.conflicts.find((conflict) => conflict.property === propertyName);
+					if (conflict && templateProps.includes(propertyName)) {
+						propertyKeyEl.setAttribute('data-metatag-conflict', 'true');
+						tooltip.push(this.describeConflict(conflict));
+					}
+
+					const messages = violations
+						.filter((violation) => violation.property === propertyName)
+						.map((violation) => violation.message);
+					if (messages.length > 0) {
+						propertyKeyEl.setAttribute('data-metatag-invalid', 'true');
+						tooltip.push(...messages);
+					}
+
+					if (lockedProps.includes(propertyName)) {
+						propertyKeyEl.setAttribute('data-metatag-locked', 'true');
+						tooltip.push('Locked by template');
+					}
+
+					if (tooltip.length > 0) {
+						propertyKeyEl.setAttribute('aria-label', tooltip.join('\n'));
+					}
+				});
+
+				view.containerEl.querySelectorAll('.metatag-missing-properties').forEach((el) => el.remove());
+				if (missing.length === 0) continue;
+				// Reading view and live preview each render their own properties
+				view.containerEl.querySelectorAll('.metadata-container').forEach((metadataContainer) => {
+					if (!(metadataContainer instanceof HTMLElement)) return;
+					metadataContainer.createDiv({
+						cls: 'metatag-missing-properties',
+						text: `Missing required properties: ${missing.map((violation) => violation.property).join(', ')}`,
+					});
+				});
+			}
+		}
+
+		/**
+		 * Compares a note value with its template default. Defaults with placeholders
+		 * are resolved per note, so they cannot be compared.
+		 */
+		getDefaultState(value: any, defaultValue: any): 'equal' | 'drifted' | null {
+			if (value === undefined || hasPlaceholders(defaultValue)) return null;
+			if (isSameValue(value, defaultValue)) return 'equal';
+			// An empty property and an empty default are the same thing
+			if (isEmptyValue(value) && isEmptyValue(defaultValue)) return 'equal';
+			return 'drifted';
+		}
+
+		/**
+		 * Offers to reset a property when its drift badge is right-clicked.
+		 */
+		onPropertyBadgeContextMenu(evt: MouseEvent) {
+			if (!(evt.target instanceof Element)) return;
+			const badgeEl = evt.target.closest('.metatag-property-badge');
+			const propertyKeyEl = badgeEl?.closest('.metadata-property-key[data-metatag-default="drifted"]');
+			const propertyName = propertyKeyEl
+				?.closest('.metadata-property')
+				?.getAttribute('data-property-key')
+				?.trim();
+			if (!propertyKeyEl || !propertyName) return;
+
+			const view = this.app.workspace
+				.getLeavesOfType('markdown')
+				.map((leaf) => leaf.view)
+				.find((view) => view instanceof MarkdownView && view.containerEl.contains(propertyKeyEl));
+			const file = view instanceof MarkdownView ? view.file : null;
+			if (!file) return;
+
+			evt.preventDefault();
+			evt.stopPropagation();
+			new Menu()
+				.addItem((item) =>
+					item
+						.setTitle('Reset to template default')
+						.setIcon('rotate-ccw')
+						.onClick(() => this.resetPropertyToDefault(file, propertyName))
+				)
+				.showAtMouseEvent(evt);
+		}
+
+		/**
+		 * Sets a property back to the default of the note's templates.
+		 */
+		async resetPropertyToDefault(file: TFile, propertyName: string) {
+			const noteData = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			const merged = await this.mergeNoteTemplates(this.getNoteMetaTagNames(file));
+			if (!(propertyName in merged.data)) return;
+
+			await this.applyFrontmatterChanges(
+				[{ file, before: noteData, after: { ...noteData, [propertyName]: merged.data[propertyName] } }],
+				'property-reset',
+				`Reset ${propertyName} of ${file.basename}`
+			);
+		}
+
+		describeConflict(conflict: PropertyConflict): string {
+			const values = conflict.values
+				.map(({ template, value }) => `${template}: ${formatFrontmatterValue(value)}`)
+				.join(', ');
+			return `Conflict (${values}), resolved by "${conflict.strategy}" to ${formatFrontmatterValue(conflict.resolved)}`;
+		}
+
+		clearMetaTagAttributes(propertyKeyEl: Element) {
+			const attributes = [
+				'data-metatag',
+				'data-metatag-source',
+				'data-metatag-conflict',
+				'data-metatag-invalid',
+				'data-metatag-locked',
+				'data-metatag-default',
+			];
+			// Only drop tooltips set by addMetaTagAttributesToProperties
+			if (attributes.some((attribute) => propertyKeyEl.hasAttribute(attribute))) {
+				propertyKeyEl.removeAttribute('aria-label');
+			}
+			attributes.forEach((attribute) => propertyKeyEl.removeAttribute(attribute));
+			propertyKeyEl.querySelectorAll('.metatag-property-badge').forEach((el) => el.remove());
+		}
+
+		// Remove all MetaTag attributes from the properties
+		removeMetaTagAttributesFromProperties(file: TFile) {
+			for (const view of this.getMarkdownViews(file)) {
+				const elements = view.containerEl.querySelectorAll('.metadata-property-key');
+				elements.forEach((el) => this.clearMetaTagAttributes(el));
+				view.containerEl.querySelectorAll('.metatag-missing-properties').forEach((el) => el.remove());
+			}
 		}
 
 		extractFrontmatter(content: string): any {
-			const match = content.match(/^---\n([\s\S]*?)\n---/);
-			if (match) {
-			  try {
-				return YAML.parse(match[1]);
-			  } catch (e) {
+			try {
+				return parseFrontmatter(content);
+			} catch (e) {
 				console.error("Failed to parse frontmatter", e);
 				return {};
-			  }
 			}
-			return {};
 		}
 
-		isCurrentFile(file: TFile): boolean {
-			const activeFile = this.app.workspace.getActiveFile();
-			return activeFile?.path === file.path;
-		}
 		  
 }
 
@@ -667,14 +3268,36 @@ class MetaTagsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Tag Base")
-			.setDesc("The base tag for MetaTags")
-			.addText((text) =>
-				text
-					.setPlaceholder("Enter base tag")
-					.setValue(this.plugin.settings.tagBase)
+			.setDesc(
+				`The base tag for MetaTags, currently "${this.plugin.settings.tagBase}". Changing it rewrites the MetaTags of every note and template.`
+			)
+			.addButton((button) =>
+				button.setButtonText("Change…").onClick(async () => {
+					const value = await new PromptModal(
+						this.app,
+						"New tag base",
+						this.plugin.settings.tagBase
+					).ask();
+					if (value !== null) {
+						this.plugin.changeTagBase(value, () => this.display());
+					}
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("MetaTag Source")
+			.setDesc(
+				`Where notes carry their MetaTags. With the ${META_TAG_PROPERTY} property, notes list template names instead of tags. Run "Move MetaTags of all notes to the configured source" after changing this.`
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(META_TAG_SOURCES)
+					.setValue(this.plugin.settings.metaTagSource)
 					.onChange(async (value) => {
-						this.plugin.settings.tagBase = value;
+						this.plugin.settings.metaTagSource = value as MetaTagSource;
 						await this.plugin.saveSettings();
+						// Notes read differently now; this must not count as tags being added or removed
+						this.plugin.initializeFileTagCache();
 					})
 			);
 
@@ -691,10 +3314,74 @@ class MetaTagsSettingTab extends PluginSettingTab {
 
 			);
 
+		new Setting(containerEl)
+			.setName("Preview Template Changes")
+			.setDesc("When a template changes, show the planned changes to tagged notes and ask before applying them")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.previewTemplateChanges)
+					.onChange(async (value) => {
+						this.plugin.settings.previewTemplateChanges = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Template Priority")
+			.setDesc(
+				"MetaTag names, one per line, highest priority first. When several MetaTags on a note define the same property, the first listed template wins unless the template schema sets another merge strategy. Unlisted templates come last, in alphabetical order."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("book\nproject")
+					.setValue(this.plugin.settings.templatePriority.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.templatePriority = value
+							.split("\n")
+							.map((name) => name.trim())
+							.filter((name) => name.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Template-Only Keys")
+			.setDesc(
+				`Template frontmatter keys, one per line, that are never copied into notes. Tags, the tag base, template directives and keys starting with "${TEMPLATE_DIRECTIVE_PREFIX}" are always template-only.`
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("description\nicon")
+					.setValue(this.plugin.settings.templateOnlyKeys.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.templateOnlyKeys = value
+							.split("\n")
+							.map((key) => key.trim())
+							.filter((key) => key.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Undo History Size")
+			.setDesc("How many batches of automatic changes to keep for undo")
+			.addText((text) =>
+				text
+					.setPlaceholder("50")
+					.setValue(String(this.plugin.settings.journalLimit))
+					.onChange(async (value) => {
+						const limit = parseInt(value, 10);
+						if (isNaN(limit) || limit < 0) return;
+						this.plugin.settings.journalLimit = limit;
+						this.plugin.journal.limit = limit;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
             .setName("Template Folder Path")
             .setDesc(
-                "The folder where your template files are stored. Leave empty for templates to exist anywhere in your vault."
+                "The folder where your template files are stored. Subfolders map to nested MetaTags, so mt/work/meeting uses work/meeting.md. Leave empty for templates to exist anywhere in your vault."
             )
             .addText((text) =>
                 text
@@ -703,7 +3390,162 @@ class MetaTagsSettingTab extends PluginSettingTab {
                     .onChange(async (value) => {
                         this.plugin.settings.templateFolderPath = value.trim();
                         await this.plugin.saveSettings();
+                        this.plugin.reloadTemplates();
                     })
             );
+
+		new Setting(containerEl)
+			.setName("Inherit Folder Templates")
+			.setDesc(
+				"Nested templates inherit from the template of their parent folder, so work/meeting.md also gets the properties of work.md. Requires a template folder."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.inheritFolderTemplates)
+					.onChange(async (value) => {
+						this.plugin.settings.inheritFolderTemplates = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-Apply Rules")
+			.setDesc(
+				"Add MetaTags to notes by folder glob (Meetings/**), file name regex (^\\d{4}-\\d{2}-\\d{2}$) or an ordinary tag. Rules run when a note is created or moved, and through the \"Apply MetaTag rules to all notes\" command."
+			)
+			.setHeading();
+
+		this.plugin.settings.autoApplyRules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(AUTO_APPLY_RULE_TYPES)
+						.setValue(rule.type)
+						.onChange(async (value) => {
+							rule.type = value as AutoApplyRuleType;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Pattern")
+						.setValue(rule.pattern)
+						.onChange(async (value) => {
+							rule.pattern = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("MetaTags, comma separated")
+						.setValue(rule.metaTags.join(", "))
+						.onChange(async (value) => {
+							rule.metaTags = value
+								.split(",")
+								.map((name) => name.trim().replace(/^#/, ""))
+								.map((name) =>
+									name.startsWith(`${this.plugin.settings.tagBase}/`)
+										? this.plugin.getMetaTagName(name)
+										: name
+								)
+								.filter((name) => name.length > 0);
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove rule")
+						.onClick(async () => {
+							this.plugin.settings.autoApplyRules =
+								this.plugin.settings.autoApplyRules.filter((_, i) => i !== index);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add rule").onClick(async () => {
+				this.plugin.settings.autoApplyRules = [
+					...this.plugin.settings.autoApplyRules,
+					{ type: "folder", pattern: "", metaTags: [] },
+				];
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		this.displayTemplates(containerEl);
+	}
+
+	/**
+	 * Lists the templates with their property and note counts, and lets the user
+	 * create, open and duplicate them.
+	 */
+	displayTemplates(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName("Templates")
+			.setDesc("The templates MetaTags found, with the properties they give notes and the notes using them.")
+			.setHeading()
+			.addButton((button) =>
+				button.setButtonText("New template").onClick(async () => {
+					const name = await this.askTemplateName("Name of the new template", "");
+					if (name && (await this.plugin.createTemplate(name))) {
+						this.display();
+					}
+				})
+			);
+
+		const templateNames = this.plugin.getTemplateNames();
+		if (templateNames.length === 0) {
+			containerEl.createEl("p", {
+				cls: "setting-item-description",
+				text: "No templates yet.",
+			});
+			return;
+		}
+
+		for (const name of templateNames) {
+			const noteCount = this.plugin.getNotesWithMetaTag(name).length;
+			const setting = new Setting(containerEl)
+				.setName(`${this.plugin.settings.tagBase}/${name}`)
+				.setDesc(`${noteCount} note(s)`)
+				.addExtraButton((button) =>
+					button
+						.setIcon("file-text")
+						.setTooltip("Open template")
+						.onClick(async () => {
+							const file = await this.plugin.getTemplateFileByName(name);
+							if (file) await this.app.workspace.getLeaf(false).openFile(file);
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("copy")
+						.setTooltip("Duplicate template")
+						.onClick(async () => {
+							const newName = await this.askTemplateName(
+								`Duplicate "${name}" as`,
+								`${name} copy`
+							);
+							if (newName && (await this.plugin.duplicateTemplate(name, newName))) {
+								this.display();
+							}
+						})
+				);
+
+			// Inherited properties count too, so they are resolved after rendering
+			this.plugin.resolveTemplateData(name).then((data) => {
+				const propertyCount = this.plugin.getTemplatePropertyNames(data).length;
+				setting.setDesc(`${propertyCount} propert${propertyCount === 1 ? "y" : "ies"}, used by ${noteCount} note(s)`);
+			});
+		}
+	}
+
+	async askTemplateName(question: string, defaultValue: string): Promise<string | null> {
+		const value = await new PromptModal(this.app, question, defaultValue).ask();
+		const name = value === null ? "" : this.plugin.normalizeTemplateName(value);
+		return name.length > 0 ? name : null;
 	}
 }
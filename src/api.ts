@@ -0,0 +1,102 @@
+import { EventRef, Events, TFile } from "obsidian";
+import type MetaTagsPlugin from "../main";
+import { TemplateSchema } from "./schema";
+
+/**
+ * Events emitted on `app.plugins.plugins["metatags"].api`:
+ * - metatag-applied: templates were applied to a note after its MetaTags were added
+ * - metatag-removed: a MetaTag was removed from a note
+ * - template-synced: template changes were written to the notes using it
+ */
+export class MetaTagsEvents extends Events {
+	on(name: "metatag-applied", callback: (file: TFile, metaTagNames: string[]) => unknown, ctx?: unknown): EventRef;
+	on(name: "metatag-removed", callback: (file: TFile, metaTagName: string) => unknown, ctx?: unknown): EventRef;
+	on(name: "template-synced", callback: (metaTagName: string, files: TFile[]) => unknown, ctx?: unknown): EventRef;
+	on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+		return super.on(name, callback, ctx);
+	}
+
+	trigger(name: "metatag-applied", file: TFile, metaTagNames: string[]): void;
+	trigger(name: "metatag-removed", file: TFile, metaTagName: string): void;
+	trigger(name: "template-synced", metaTagName: string, files: TFile[]): void;
+	trigger(name: string, ...data: any[]): void {
+		super.trigger(name, ...data);
+	}
+}
+
+/**
+ * The API other plugins and scripts use, e.g. from Templater:
+ *
+ *     const metatags = app.plugins.plugins["metatags"].api;
+ *     await metatags.applyMetaTag(tp.config.target_file, "meeting");
+ *
+ * MetaTag names are given without the tag base, so `meeting` for `#mt/meeting`.
+ */
+export interface MetaTagsApi {
+	// Bumped when a method changes in a way that breaks callers
+	readonly version: number;
+	// The tag MetaTags are nested under, `mt` by default
+	readonly tagBase: string;
+	readonly events: MetaTagsEvents;
+
+	/**
+	 * Names of the MetaTags a note carries in the configured MetaTag source: the
+	 * frontmatter tags, inline tags as well, or the `metatags` property.
+	 */
+	getMetaTags(file: TFile): string[];
+	/** Names of all known templates, sorted. */
+	getTemplateNames(): string[];
+	getTemplateFile(metaTagName: string): Promise<TFile | null>;
+	/** The properties a template adds to notes, including inherited ones. */
+	getTemplateProperties(metaTagName: string): Promise<Record<string, any>>;
+	/** The property schema of a template, including inherited definitions. */
+	getTemplateSchema(metaTagName: string): Promise<TemplateSchema>;
+	/** Notes carrying the MetaTag. */
+	getNotesWithMetaTag(metaTagName: string): TFile[];
+
+	/** Adds the MetaTag and its template properties. Resolves to false when already present. */
+	applyMetaTag(file: TFile, metaTagName: string): Promise<boolean>;
+	/**
+	 * Removes the MetaTag wherever the note carries it: frontmatter tags, the
+	 * `metatags` property and, with the inline source, inline tags in the body.
+	 * Resolves to false when absent.
+	 */
+	removeMetaTag(file: TFile, metaTagName: string): Promise<boolean>;
+	/** Adds every template property the note is missing. Resolves to true when the note changed. */
+	syncNote(file: TFile): Promise<boolean>;
+	/** Brings every note carrying the MetaTag up to date. Resolves to the notes that changed. */
+	syncTemplate(metaTagName: string): Promise<TFile[]>;
+}
+
+export function createMetaTagsApi(plugin: MetaTagsPlugin): MetaTagsApi {
+	return {
+		version: 1,
+		get tagBase() {
+			return plugin.settings.tagBase;
+		},
+		events: plugin.events,
+
+		getMetaTags: (file) =>
+			plugin
+				.getAllTags(file)
+				.filter((tag) => plugin.isMetaTag(tag))
+				.map((tag) => plugin.getMetaTagName(tag)),
+		getTemplateNames: () => plugin.getTemplateNames(),
+		getTemplateFile: (metaTagName) => plugin.getTemplateFileByName(metaTagName),
+		getTemplateProperties: async (metaTagName) => {
+			const templateData = await plugin.resolveTemplateData(metaTagName);
+			const properties: Record<string, any> = {};
+			for (const prop of plugin.getTemplatePropertyNames(templateData)) {
+				properties[prop] = templateData[prop];
+			}
+			return properties;
+		},
+		getTemplateSchema: (metaTagName) => plugin.resolveTemplateSchema(metaTagName),
+		getNotesWithMetaTag: (metaTagName) => plugin.getNotesWithMetaTag(metaTagName),
+
+		applyMetaTag: (file, metaTagName) => plugin.addMetaTagToNote(file, metaTagName),
+		removeMetaTag: (file, metaTagName) => plugin.removeMetaTagFromNote(file, metaTagName),
+		syncNote: async (file) => (await plugin.resyncNote(file)).length > 0,
+		syncTemplate: (metaTagName) => plugin.syncTemplate(metaTagName),
+	};
+}
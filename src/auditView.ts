@@ -0,0 +1,199 @@
+import { ButtonComponent, ItemView, TFile, WorkspaceLeaf } from "obsidian";
+import type MetaTagsPlugin from "../main";
+
+export const AUDIT_VIEW_TYPE = "metatag-audit";
+
+export interface NoteProperties {
+	file: TFile;
+	properties: string[];
+}
+
+export interface TemplateAudit {
+	name: string;
+	file: TFile | null;
+	notes: TFile[];
+	missing: NoteProperties[];
+	extra: NoteProperties[];
+}
+
+export interface MetaTagAudit {
+	templates: TemplateAudit[];
+	unknownTags: { name: string; notes: TFile[] }[];
+}
+
+/**
+ * Side panel that shows how far notes have drifted from their templates, with
+ * one-click fixes for each finding.
+ */
+export class MetaTagAuditView extends ItemView {
+	plugin: MetaTagsPlugin;
+	audit: MetaTagAudit | null = null;
+	refreshing = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MetaTagsPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return AUDIT_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "MetaTag audit";
+	}
+
+	getIcon(): string {
+		return "tags";
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	async refresh() {
+		if (this.refreshing) return;
+		this.refreshing = true;
+
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("metatag-audit");
+		contentEl.createDiv({ cls: "metatag-audit-status", text: "Scanning notes…" });
+
+		try {
+			this.audit = await this.plugin.auditMetaTags();
+		} finally {
+			this.refreshing = false;
+		}
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.audit) return;
+
+		const headerEl = contentEl.createDiv({ cls: "metatag-audit-header" });
+		new ButtonComponent(headerEl)
+			.setIcon("refresh-cw")
+			.setTooltip("Rescan")
+			.onClick(() => this.refresh());
+
+		const used = this.audit.templates.filter((template) => template.notes.length > 0);
+		const unused = this.audit.templates.filter((template) => template.notes.length === 0);
+
+		if (used.length === 0 && this.audit.unknownTags.length === 0) {
+			contentEl.createDiv({ cls: "metatag-audit-status", text: "No notes carry a MetaTag yet." });
+		}
+
+		for (const template of used) {
+			this.renderTemplate(contentEl, template);
+		}
+
+		if (this.audit.unknownTags.length > 0) {
+			const sectionEl = this.createSection(contentEl, "Tags without a template");
+			for (const { name, notes } of this.audit.unknownTags) {
+				const rowEl = this.createRow(sectionEl, `${this.plugin.settings.tagBase}/${name}`, `${notes.length} note(s)`);
+				this.addButton(rowEl, "Create template", () => this.plugin.createTemplate(name));
+				this.addButton(rowEl, "Remove tag", () => this.plugin.detachMetaTag(name, notes, null));
+			}
+		}
+
+		if (unused.length > 0) {
+			const sectionEl = this.createSection(contentEl, "Templates no note uses");
+			for (const template of unused) {
+				const rowEl = this.createRow(sectionEl, template.name, "0 notes");
+				if (template.file) {
+					const file = template.file;
+					this.addButton(rowEl, "Open", async () => {
+						await this.app.workspace.getLeaf(false).openFile(file);
+					}, false);
+				}
+			}
+		}
+	}
+
+	renderTemplate(containerEl: HTMLElement, template: TemplateAudit) {
+		const sectionEl = this.createSection(
+			containerEl,
+			`${template.name} · ${template.notes.length} note(s)`
+		);
+
+		if (template.missing.length === 0 && template.extra.length === 0) {
+			sectionEl.createDiv({ cls: "metatag-audit-ok", text: "All notes match the template." });
+			return;
+		}
+
+		if (template.missing.length > 0) {
+			const groupEl = sectionEl.createDiv({ cls: "metatag-audit-group" });
+			const titleEl = groupEl.createDiv({
+				cls: "metatag-audit-group-title",
+				text: `Missing template properties (${template.missing.length})`,
+			});
+			this.addButton(titleEl, "Add all", () => this.plugin.bulkResync(template.name));
+
+			for (const { file, properties } of template.missing) {
+				const rowEl = this.createNoteRow(groupEl, file, properties);
+				this.addButton(rowEl, "Add", () => this.plugin.resyncNote(file, [template.name]));
+			}
+		}
+
+		if (template.extra.length > 0) {
+			const groupEl = sectionEl.createDiv({ cls: "metatag-audit-group" });
+			groupEl.createDiv({
+				cls: "metatag-audit-group-title",
+				text: `Properties not in any template (${template.extra.length})`,
+			});
+
+			for (const { file, properties } of template.extra) {
+				const rowEl = this.createNoteRow(groupEl, file, properties);
+				this.addButton(rowEl, "Remove", () => this.plugin.removeProperties(file, properties));
+			}
+		}
+	}
+
+	createSection(containerEl: HTMLElement, title: string): HTMLElement {
+		const sectionEl = containerEl.createDiv({ cls: "metatag-audit-section" });
+		sectionEl.createEl("h4", { text: title });
+		return sectionEl;
+	}
+
+	createRow(containerEl: HTMLElement, title: string, description: string): HTMLElement {
+		const rowEl = containerEl.createDiv({ cls: "metatag-audit-row" });
+		const textEl = rowEl.createDiv({ cls: "metatag-audit-row-text" });
+		textEl.createDiv({ text: title });
+		textEl.createEl("small", { text: description });
+		return rowEl;
+	}
+
+	createNoteRow(containerEl: HTMLElement, file: TFile, properties: string[]): HTMLElement {
+		const rowEl = containerEl.createDiv({ cls: "metatag-audit-row" });
+		const textEl = rowEl.createDiv({ cls: "metatag-audit-row-text" });
+		const linkEl = textEl.createEl("a", { text: file.basename, href: "#" });
+		linkEl.addEventListener("click", async (event) => {
+			event.preventDefault();
+			await this.app.workspace.getLeaf(false).openFile(file);
+		});
+		textEl.createEl("small", { text: properties.join(", ") });
+		return rowEl;
+	}
+
+	/**
+	 * Adds a fix button; by default the audit is rescanned once the fix is done.
+	 */
+	addButton(
+		containerEl: HTMLElement,
+		text: string,
+		onClick: () => Promise<unknown>,
+		refreshAfter = true
+	) {
+		new ButtonComponent(containerEl).setButtonText(text).onClick(async () => {
+			await onClick();
+			if (refreshAfter) await this.refresh();
+		});
+	}
+}
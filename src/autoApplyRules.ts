@@ -0,0 +1,90 @@
+export type AutoApplyRuleType = "folder" | "filename" | "tag";
+
+export const AUTO_APPLY_RULE_TYPES: Record<AutoApplyRuleType, string> = {
+	folder: "Folder glob",
+	filename: "File name regex",
+	tag: "Tag",
+};
+
+/**
+ * Adds MetaTags to notes that match a pattern:
+ * - folder: a glob matched against the note's folder, e.g. `Meetings/**`
+ * - filename: a regular expression matched against the file name without `.md`
+ * - tag: an ordinary tag the note carries, with or without `#`
+ */
+export interface AutoApplyRule {
+	type: AutoApplyRuleType;
+	pattern: string;
+	metaTags: string[];
+}
+
+export interface RuleTarget {
+	path: string;
+	basename: string;
+	tags: string[];
+}
+
+/**
+ * Returns the MetaTag names of every rule the note matches, without duplicates.
+ */
+export function getAutoApplyMetaTags(rules: AutoApplyRule[], target: RuleTarget): string[] {
+	const metaTags = rules
+		.filter((rule) => matchesRule(rule, target))
+		.flatMap((rule) => rule.metaTags);
+	return [...new Set(metaTags)];
+}
+
+export function matchesRule(rule: AutoApplyRule, target: RuleTarget): boolean {
+	const pattern = rule.pattern.trim();
+	if (!pattern || rule.metaTags.length === 0) return false;
+
+	switch (rule.type) {
+		case "folder": {
+			const folder = target.path.includes("/")
+				? target.path.substring(0, target.path.lastIndexOf("/"))
+				: "";
+			return globToRegExp(pattern.replace(/\/+$/, "")).test(folder);
+		}
+		case "filename": {
+			try {
+				return new RegExp(pattern).test(target.basename);
+			} catch (e) {
+				console.warn(`MetaTags: invalid rule pattern "${pattern}"`, e);
+				return false;
+			}
+		}
+		case "tag": {
+			const tag = pattern.replace(/^#/, "");
+			return target.tags.some((noteTag) => noteTag === tag || noteTag.startsWith(`${tag}/`));
+		}
+		default:
+			return false;
+	}
+}
+
+/**
+ * Converts a folder glob to a regular expression. `*` matches within one folder,
+ * `**` matches any number of folders and `?` matches one character.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index];
+		if (char === "*" && glob[index + 1] === "*") {
+			// `a/**` also matches `a` itself
+			if (source.endsWith("/") && index + 2 === glob.length) {
+				source = source.slice(0, -1) + "(/.*)?";
+			} else {
+				source += ".*";
+			}
+			index++;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
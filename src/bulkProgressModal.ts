@@ -0,0 +1,82 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface BulkSummary {
+	total: number;
+	updated: number;
+	skipped: number;
+	failed: string[];
+	cancelled: boolean;
+}
+
+/**
+ * Shows the progress of a bulk operation, lets the user cancel it and
+ * summarizes the result once it is done.
+ */
+export class BulkProgressModal extends Modal {
+	title: string;
+	cancelled = false;
+	finished = false;
+	progressEl: HTMLProgressElement;
+	statusEl: HTMLElement;
+	buttonSetting: Setting;
+
+	constructor(app: App, title: string) {
+		super(app);
+		this.title = title;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText(this.title);
+		this.progressEl = contentEl.createEl("progress", { cls: "metatag-bulk-progress" });
+		this.progressEl.value = 0;
+		this.statusEl = contentEl.createDiv({ cls: "metatag-bulk-status" });
+
+		this.buttonSetting = new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Cancel").onClick(() => {
+				this.cancelled = true;
+				this.statusEl.setText("Cancelling…");
+			})
+		);
+	}
+
+	update(done: number, total: number, currentPath?: string) {
+		this.progressEl.max = Math.max(total, 1);
+		this.progressEl.value = done;
+		this.statusEl.setText(
+			currentPath ? `${done} / ${total} · ${currentPath}` : `${done} / ${total}`
+		);
+	}
+
+	finish(summary: BulkSummary) {
+		this.finished = true;
+		this.progressEl.value = this.progressEl.max;
+
+		const { contentEl } = this;
+		this.statusEl.setText(
+			`${summary.cancelled ? "Cancelled" : "Done"}: ${summary.updated} updated, ${summary.skipped} unchanged, ${summary.failed.length} failed, out of ${summary.total} note(s).`
+		);
+
+		if (summary.failed.length > 0) {
+			const listEl = contentEl.createEl("ul", { cls: "metatag-bulk-failed" });
+			for (const path of summary.failed) {
+				listEl.createEl("li", { text: path });
+			}
+		}
+
+		this.buttonSetting.clear().addButton((button) =>
+			button
+				.setButtonText("Close")
+				.setCta()
+				.onClick(() => this.close())
+		);
+	}
+
+	onClose() {
+		// Closing the modal while running stops the operation as well
+		if (!this.finished) this.cancelled = true;
+		this.contentEl.empty();
+	}
+}
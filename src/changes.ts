@@ -0,0 +1,79 @@
+import { TFile } from "obsidian";
+
+/**
+ * A planned rewrite of a note's body, e.g. by template sections.
+ */
+export interface BodyChange {
+	before: string;
+	after: string;
+	// Headings of the sections the rewrite adds or replaces
+	sections: string[];
+}
+
+/**
+ * A planned rewrite of a note's frontmatter.
+ */
+export interface FrontmatterChange {
+	file: TFile;
+	before: Record<string, any>;
+	after: Record<string, any>;
+	// Parts of the change that could not be applied cleanly
+	problems?: string[];
+	// Only applied while the note's body still reads like `body.before`
+	body?: BodyChange;
+}
+
+export interface FrontmatterDiff {
+	added: string[];
+	removed: string[];
+	changed: string[];
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffFrontmatter(
+	before: Record<string, any>,
+	after: Record<string, any>
+): FrontmatterDiff {
+	const added = Object.keys(after).filter((key) => !(key in before));
+	const removed = Object.keys(before).filter((key) => !(key in after));
+	const changed = Object.keys(after).filter(
+		(key) => key in before && !isSameValue(before[key], after[key])
+	);
+	return { added, removed, changed };
+}
+
+export function hasFrontmatterChanges(change: FrontmatterChange): boolean {
+	const { added, removed, changed } = diffFrontmatter(change.before, change.after);
+	return added.length + removed.length + changed.length > 0;
+}
+
+/**
+ * Replays a planned change on top of the note's current frontmatter, so edits
+ * made to unrelated keys since the change was planned are kept.
+ */
+export function applyFrontmatterDiff(
+	current: Record<string, any>,
+	change: { before: Record<string, any>; after: Record<string, any> }
+): Record<string, any> {
+	const { added, removed, changed } = diffFrontmatter(change.before, change.after);
+	const result = { ...current };
+
+	for (const key of [...added, ...changed]) {
+		result[key] = change.after[key];
+	}
+	for (const key of removed) {
+		delete result[key];
+	}
+
+	return result;
+}
+
+export function formatFrontmatterValue(value: unknown): string {
+	if (value === undefined) return "";
+	if (value === null) return "(empty)";
+	if (typeof value === "string") return value === "" ? "(empty)" : value;
+	return JSON.stringify(value);
+}
@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface Choice {
+	text: string;
+	cta?: boolean;
+	warning?: boolean;
+	onChoose: () => void | Promise<void>;
+}
+
+/**
+ * Asks the user to pick one of a few actions. Closing the modal chooses nothing.
+ */
+export class ChoiceModal extends Modal {
+	title: string;
+	message: string;
+	details: string[];
+	choices: Choice[];
+
+	constructor(app: App, title: string, message: string, choices: Choice[], details: string[] = []) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.choices = choices;
+		this.details = details;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText(this.title);
+		contentEl.createEl("p", { text: this.message });
+
+		if (this.details.length > 0) {
+			const listEl = contentEl.createEl("ul", { cls: "metatag-choice-details" });
+			for (const detail of this.details) {
+				listEl.createEl("li", { text: detail });
+			}
+		}
+
+		const setting = new Setting(contentEl);
+		for (const choice of this.choices) {
+			setting.addButton((button) => {
+				button.setButtonText(choice.text).onClick(async () => {
+					this.close();
+					await choice.onChoose();
+				});
+				if (choice.cta) button.setCta();
+				if (choice.warning) button.setWarning();
+			});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,104 @@
+import { App, Modal, Setting } from "obsidian";
+import { BundleFormat } from "./templateBundle";
+
+/**
+ * Lets the user pick the templates, format and file of a template bundle.
+ */
+export class ExportBundleModal extends Modal {
+	templateNames: string[];
+	selected: Set<string>;
+	format: BundleFormat = "json";
+	path = "metatags-bundle.json";
+	onExport: (templateNames: string[], format: BundleFormat, path: string) => Promise<void>;
+
+	constructor(
+		app: App,
+		templateNames: string[],
+		onExport: (templateNames: string[], format: BundleFormat, path: string) => Promise<void>
+	) {
+		super(app);
+		this.templateNames = templateNames;
+		this.selected = new Set(templateNames);
+		this.onExport = onExport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText("Export MetaTag templates");
+
+		if (this.templateNames.length === 0) {
+			contentEl.createEl("p", { text: "There are no templates to export." });
+			return;
+		}
+
+		const listEl = contentEl.createDiv({ cls: "metatag-bundle-list" });
+		const checkboxes: HTMLInputElement[] = [];
+		for (const name of this.templateNames) {
+			const labelEl = listEl.createEl("label", { cls: "metatag-bundle-item" });
+			const checkbox = labelEl.createEl("input", { type: "checkbox" });
+			checkbox.checked = true;
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(name);
+				} else {
+					this.selected.delete(name);
+				}
+			});
+			checkboxes.push(checkbox);
+			labelEl.appendText(` ${name}`);
+		}
+
+		let pathInput: HTMLInputElement | null = null;
+		new Setting(contentEl)
+			.setName("Format")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ json: "JSON", yaml: "YAML" })
+					.setValue(this.format)
+					.onChange((value) => {
+						this.format = value as BundleFormat;
+						this.path = this.path.replace(/\.(json|ya?ml)$/, `.${this.format === "yaml" ? "yaml" : "json"}`);
+						if (pathInput) pathInput.value = this.path;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("File")
+			.setDesc("Path of the bundle in the vault")
+			.addText((text) => {
+				pathInput = text.inputEl;
+				text.setValue(this.path).onChange((value) => (this.path = value.trim()));
+			});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Select all").onClick(() => {
+					checkboxes.forEach((checkbox) => (checkbox.checked = true));
+					this.selected = new Set(this.templateNames);
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Select none").onClick(() => {
+					checkboxes.forEach((checkbox) => (checkbox.checked = false));
+					this.selected.clear();
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Export")
+					.setCta()
+					.onClick(async () => {
+						const names = this.templateNames.filter((name) => this.selected.has(name));
+						if (names.length === 0 || !this.path) return;
+						this.close();
+						await this.onExport(names, this.format, this.path);
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
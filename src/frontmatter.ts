@@ -0,0 +1,211 @@
+import * as YAML from "yaml";
+import { isSameValue } from "./changes";
+
+export interface FrontmatterBlock {
+	// The YAML between the delimiters
+	yaml: string;
+	// Offset of the first YAML character in the note
+	yamlStart: number;
+	// Offset just past the last YAML character (before the closing delimiter line)
+	yamlEnd: number;
+	// Offset of the closing delimiter line
+	closingStart: number;
+	// Offset just past the closing delimiter line, including its line break
+	end: number;
+	lineBreak: string;
+}
+
+export class FrontmatterParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "FrontmatterParseError";
+	}
+}
+
+/**
+ * Locates the frontmatter block. It only exists when the very first line of the
+ * note is `---` and a later line is `---` again, so horizontal rules in notes
+ * without frontmatter are never mistaken for it.
+ */
+export function findFrontmatter(content: string): FrontmatterBlock | null {
+	const opening = content.match(/^---[ \t]*(\r?\n)/);
+	if (!opening) return null;
+
+	const lineBreak = opening[1];
+	const yamlStart = opening[0].length;
+	const closing = /^---[ \t]*$/m;
+
+	// The closing delimiter may directly follow the opening one (empty frontmatter)
+	let lineStart = yamlStart;
+	while (lineStart <= content.length) {
+		const lineEnd = content.indexOf("\n", lineStart);
+		const line = content
+			.substring(lineStart, lineEnd === -1 ? content.length : lineEnd)
+			.replace(/\r$/, "");
+
+		if (closing.test(line)) {
+			const yamlEnd = Math.max(yamlStart, lineStart - lineBreak.length);
+			return {
+				yaml: content.substring(yamlStart, yamlEnd),
+				yamlStart,
+				yamlEnd,
+				closingStart: lineStart,
+				end: lineEnd === -1 ? content.length : lineEnd + 1,
+				lineBreak,
+			};
+		}
+
+		if (lineEnd === -1) break;
+		lineStart = lineEnd + 1;
+	}
+
+	return null;
+}
+
+/**
+ * Parses the frontmatter of a note into a plain object.
+ */
+export function parseFrontmatter(content: string): Record<string, any> {
+	const block = findFrontmatter(content);
+	if (!block) return {};
+
+	const doc = YAML.parseDocument(block.yaml);
+	if (doc.errors.length > 0) {
+		throw new FrontmatterParseError(doc.errors[0].message);
+	}
+
+	const data = doc.toJS();
+	return data && typeof data === "object" && !Array.isArray(data) ? data : {};
+}
+
+/**
+ * Rewrites only the frontmatter keys whose values differ from `newData`.
+ * Removed keys are cut out, changed keys are re-serialized in place and new keys
+ * are appended; comments, key order and the formatting of every untouched key
+ * are kept byte-for-byte, and so is everything after the frontmatter.
+ */
+export function updateFrontmatter(content: string, newData: Record<string, any>): string {
+	const block = findFrontmatter(content);
+
+	if (!block) {
+		const keys = Object.keys(newData);
+		if (keys.length === 0) return content;
+
+		const lineBreak = content.includes("\r\n") ? "\r\n" : "\n";
+		const yaml = keys
+			.map((key) => stringifyPair(key, newData[key], null, lineBreak))
+			.join("");
+		return `---${lineBreak}${yaml}---${lineBreak}${content}`;
+	}
+
+	const doc = YAML.parseDocument(block.yaml);
+	if (doc.errors.length > 0) {
+		throw new FrontmatterParseError(doc.errors[0].message);
+	}
+
+	const contents = doc.contents;
+	if (contents !== null && !YAML.isMap(contents)) {
+		throw new FrontmatterParseError("Frontmatter is not a list of properties");
+	}
+
+	const yaml = block.yaml;
+	const pairs = contents ? (contents.items as YAML.Pair<YAML.Node, YAML.Node>[]) : [];
+	const existingKeys: string[] = [];
+	const edits: { start: number; end: number; text: string }[] = [];
+
+	for (const pair of pairs) {
+		const key = YAML.isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+		existingKeys.push(key);
+
+		const currentValue = pair.value ? pair.value.toJSON() : null;
+		const range = getPairRange(yaml, pair);
+
+		if (!(key in newData)) {
+			edits.push({ ...range, text: "" });
+		} else if (!isSameValue(currentValue, newData[key])) {
+			edits.push({
+				...range,
+				text: stringifyPair(key, newData[key], pair.value, block.lineBreak),
+			});
+		}
+	}
+
+	const addedKeys = Object.keys(newData).filter((key) => !existingKeys.includes(key));
+	if (edits.length === 0 && addedKeys.length === 0) return content;
+
+	let newYaml = yaml;
+	for (const edit of edits.sort((a, b) => b.start - a.start)) {
+		newYaml = newYaml.substring(0, edit.start) + edit.text + newYaml.substring(edit.end);
+	}
+
+	if (addedKeys.length > 0) {
+		if (newYaml.length > 0 && !newYaml.endsWith("\n")) {
+			newYaml += block.lineBreak;
+		}
+		newYaml += addedKeys
+			.map((key) => stringifyPair(key, newData[key], null, block.lineBreak))
+			.join("");
+	}
+
+	// The YAML excludes the line break before the closing delimiter
+	newYaml = newYaml.replace(/\r?\n$/, "");
+	const separator = newYaml.length > 0 ? block.lineBreak : "";
+
+	return (
+		content.substring(0, block.yamlStart) +
+		newYaml +
+		separator +
+		content.substring(block.closingStart)
+	);
+}
+
+/**
+ * Returns the source range of a top-level pair: from the start of the key's line
+ * to the end of the line the value ends on, including trailing comments.
+ */
+function getPairRange(
+	yaml: string,
+	pair: YAML.Pair<YAML.Node, YAML.Node>
+): { start: number; end: number } {
+	const keyRange = pair.key?.range || [0, 0, 0];
+	const valueEnd = pair.value?.range ? pair.value.range[1] : keyRange[1];
+
+	const start = yaml.lastIndexOf("\n", keyRange[0] - 1) + 1;
+	let end = Math.max(valueEnd, keyRange[1]);
+	if (end > 0 && yaml[end - 1] !== "\n") {
+		const lineEnd = yaml.indexOf("\n", end);
+		end = lineEnd === -1 ? yaml.length : lineEnd + 1;
+	}
+
+	return { start, end };
+}
+
+/**
+ * Serializes a single `key: value` line (or block), keeping the quoting and
+ * flow style of the value it replaces where that still applies.
+ */
+function stringifyPair(
+	key: string,
+	value: unknown,
+	previous: YAML.Node | null,
+	lineBreak: string
+): string {
+	const doc = new YAML.Document({ [key]: value === undefined ? null : value });
+	const pair = (doc.contents as YAML.YAMLMap).items[0] as YAML.Pair<YAML.Node, YAML.Node>;
+
+	if (previous && pair.value) {
+		if (YAML.isScalar(previous) && YAML.isScalar(pair.value) && typeof value === "string") {
+			pair.value.type = previous.type;
+			pair.value.comment = previous.comment;
+		} else if (YAML.isCollection(previous) && YAML.isCollection(pair.value)) {
+			pair.value.flow = previous.flow;
+		}
+	}
+
+	const text = doc.toString({
+		lineWidth: 0,
+		nullStr: "",
+		flowCollectionPadding: false,
+	});
+	return lineBreak === "\n" ? text : text.replace(/\n/g, lineBreak);
+}
@@ -0,0 +1,100 @@
+import { App, Modal, Setting } from "obsidian";
+import { TemplateImport } from "./templateBundle";
+
+/**
+ * Shows which bundled templates are new and how existing ones would change.
+ * Overwriting an existing template has to be chosen explicitly.
+ */
+export class ImportBundleModal extends Modal {
+	imports: TemplateImport[];
+	// Bundle settings that differ from the vault, as readable lines
+	settingChanges: string[];
+	selected: Set<TemplateImport>;
+	applySettings = false;
+	onImport: (imports: TemplateImport[], applySettings: boolean) => Promise<void>;
+
+	constructor(
+		app: App,
+		imports: TemplateImport[],
+		settingChanges: string[],
+		onImport: (imports: TemplateImport[], applySettings: boolean) => Promise<void>
+	) {
+		super(app);
+		this.imports = imports;
+		this.settingChanges = settingChanges;
+		this.selected = new Set(imports.filter((item) => item.status === "new"));
+		this.onImport = onImport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText("Import MetaTag templates");
+
+		const collisions = this.imports.filter((item) => item.status === "changed").length;
+		contentEl.createEl("p", {
+			text:
+				collisions > 0
+					? `${collisions} template(s) already exist with different content. Check them to overwrite.`
+					: "Check the templates to import.",
+		});
+
+		const listEl = contentEl.createDiv({ cls: "metatag-sync-preview" });
+		for (const item of this.imports) {
+			const noteEl = listEl.createDiv({ cls: "metatag-sync-preview-note" });
+			const labelEl = noteEl.createEl("label");
+			const checkbox = labelEl.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selected.has(item);
+			checkbox.disabled = item.status === "unchanged";
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(item);
+				} else {
+					this.selected.delete(item);
+				}
+			});
+			labelEl.appendText(` ${item.template.name} (${item.status})`);
+
+			if (item.changes.length > 0) {
+				const diffEl = noteEl.createEl("pre", { cls: "metatag-sync-preview-diff" });
+				for (const change of item.changes) {
+					const cls = change.startsWith("+")
+						? "metatag-diff-added"
+						: change.startsWith("-")
+						? "metatag-diff-removed"
+						: "metatag-diff-problem";
+					diffEl.createDiv({ cls, text: change });
+				}
+			}
+		}
+
+		if (this.settingChanges.length > 0) {
+			new Setting(contentEl)
+				.setName("Use the bundle's settings")
+				.setDesc(this.settingChanges.join("; "))
+				.addToggle((toggle) =>
+					toggle.setValue(this.applySettings).onChange((value) => (this.applySettings = value))
+				);
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Import selected")
+					.setCta()
+					.onClick(async () => {
+						const selected = this.imports.filter((item) => this.selected.has(item));
+						this.close();
+						await this.onImport(selected, this.applySettings);
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
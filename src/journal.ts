@@ -0,0 +1,151 @@
+import { DataAdapter } from "obsidian";
+import { BodyChange, diffFrontmatter, isSameValue } from "./changes";
+
+export type JournalTrigger =
+	| "tag-added"
+	| "tag-removed"
+	| "template-edit"
+	| "template-sync"
+	| "template-renamed"
+	| "template-deleted"
+	| "tag-source"
+	| "property-reset"
+	| "tag-base-changed";
+
+export const JOURNAL_TRIGGER_LABELS: Record<JournalTrigger, string> = {
+	"tag-added": "MetaTag added",
+	"tag-removed": "MetaTag removed",
+	"template-edit": "Template edited",
+	"template-sync": "Template synced",
+	"template-renamed": "Template renamed",
+	"template-deleted": "Template deleted",
+	"tag-source": "MetaTags moved",
+	"property-reset": "Property reset",
+	"tag-base-changed": "Tag base changed",
+};
+
+export interface JournalEntry {
+	path: string;
+	before: Record<string, any>;
+	after: Record<string, any>;
+	body?: BodyChange;
+}
+
+export interface JournalBatch {
+	id: string;
+	trigger: JournalTrigger;
+	label: string;
+	timestamp: number;
+	entries: JournalEntry[];
+}
+
+/**
+ * Persistent record of the frontmatter and section rewrites the plugin makes on its own,
+ * grouped in batches so a whole template sync can be undone in one step.
+ */
+export class FrontmatterJournal {
+	batches: JournalBatch[] = [];
+	adapter: DataAdapter;
+	path: string;
+	limit: number;
+
+	constructor(adapter: DataAdapter, path: string, limit: number) {
+		this.adapter = adapter;
+		this.path = path;
+		this.limit = limit;
+	}
+
+	async load() {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.adapter.read(this.path));
+				this.batches = Array.isArray(data?.batches) ? data.batches : [];
+			}
+		} catch (e) {
+			console.error("MetaTags: failed to load the change journal", e);
+			this.batches = [];
+		}
+	}
+
+	async save() {
+		await this.adapter.write(this.path, JSON.stringify({ batches: this.batches }));
+	}
+
+	startBatch(trigger: JournalTrigger, label: string): JournalBatch {
+		return {
+			id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			trigger,
+			label,
+			timestamp: Date.now(),
+			entries: [],
+		};
+	}
+
+	/**
+	 * Stores a finished batch, dropping the oldest batches beyond the limit.
+	 */
+	async commit(batch: JournalBatch) {
+		if (batch.entries.length === 0) return;
+
+		this.batches.push(batch);
+		if (this.limit > 0 && this.batches.length > this.limit) {
+			this.batches.splice(0, this.batches.length - this.limit);
+		}
+		await this.save();
+	}
+
+	async remove(batch: JournalBatch) {
+		this.batches = this.batches.filter((b) => b.id !== batch.id);
+		await this.save();
+	}
+
+	getLastBatch(): JournalBatch | undefined {
+		return this.batches[this.batches.length - 1];
+	}
+}
+
+/**
+ * Computes the frontmatter that reverts a journal entry. Only the keys the entry
+ * changed are restored; keys edited again since then are left alone and reported.
+ * A rewritten body is only restored while it is unchanged since.
+ */
+export function planUndo(
+	current: Record<string, any>,
+	entry: JournalEntry,
+	currentBody?: string
+): { data: Record<string, any>; body?: string; conflicts: string[] } {
+	const { added, removed, changed } = diffFrontmatter(entry.before, entry.after);
+	const data = { ...current };
+	const conflicts: string[] = [];
+
+	for (const key of [...added, ...changed]) {
+		if (!isSameValue(current[key], entry.after[key])) {
+			conflicts.push(key);
+			continue;
+		}
+		if (key in entry.before) {
+			data[key] = entry.before[key];
+		} else {
+			delete data[key];
+		}
+	}
+
+	for (const key of removed) {
+		if (key in current) {
+			conflicts.push(key);
+			continue;
+		}
+		data[key] = entry.before[key];
+	}
+
+	let body: string | undefined;
+	if (entry.body) {
+		if (currentBody === entry.body.after) {
+			body = entry.body.before;
+		} else {
+			conflicts.push("body");
+		}
+	}
+
+	return { data, body, conflicts };
+}
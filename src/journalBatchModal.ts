@@ -0,0 +1,39 @@
+import { App, SuggestModal, moment } from "obsidian";
+import { JOURNAL_TRIGGER_LABELS, JournalBatch } from "./journal";
+
+/**
+ * Lets the user pick a journal batch to undo, newest first.
+ */
+export class JournalBatchModal extends SuggestModal<JournalBatch> {
+	batches: JournalBatch[];
+	onChoose: (batch: JournalBatch) => void;
+
+	constructor(app: App, batches: JournalBatch[], onChoose: (batch: JournalBatch) => void) {
+		super(app);
+		this.batches = [...batches].reverse();
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a MetaTag change to undo");
+	}
+
+	getSuggestions(query: string): JournalBatch[] {
+		const lowerQuery = query.toLowerCase();
+		return this.batches.filter(
+			(batch) =>
+				batch.label.toLowerCase().includes(lowerQuery) ||
+				batch.entries.some((entry) => entry.path.toLowerCase().includes(lowerQuery))
+		);
+	}
+
+	renderSuggestion(batch: JournalBatch, el: HTMLElement) {
+		el.createDiv({ text: batch.label });
+		el.createEl("small", {
+			text: `${JOURNAL_TRIGGER_LABELS[batch.trigger]} · ${moment(batch.timestamp).format(
+				"YYYY-MM-DD HH:mm:ss"
+			)} · ${batch.entries.length} note(s)`,
+		});
+	}
+
+	onChooseSuggestion(batch: JournalBatch) {
+		this.onChoose(batch);
+	}
+}
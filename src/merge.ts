@@ -0,0 +1,82 @@
+import { isSameValue } from "./changes";
+import { MergeStrategy, TemplateSchema, mergeTemplateSchemas } from "./schema";
+
+/**
+ * A resolved template taking part in a merge. Lower ranks come first; templates
+ * with the same rank are ordered by name so the result never depends on tag order.
+ */
+export interface TemplateSource {
+	name: string;
+	data: Record<string, any>;
+	schema: TemplateSchema;
+	rank: number;
+}
+
+export interface PropertyConflict {
+	property: string;
+	strategy: MergeStrategy;
+	values: { template: string; value: unknown }[];
+	resolved: unknown;
+}
+
+export interface MergedTemplates {
+	data: Record<string, any>;
+	schema: TemplateSchema;
+	// Templates defining each property, in priority order
+	sources: Record<string, string[]>;
+	conflicts: PropertyConflict[];
+}
+
+export function sortTemplateSources(sources: TemplateSource[]): TemplateSource[] {
+	return [...sources].sort((a, b) => a.rank - b.rank || a.name.localeCompare(b.name));
+}
+
+/**
+ * Merges the defaults of several templates. Each property is resolved with the
+ * merge strategy from the combined schema; differing values are reported as conflicts.
+ */
+export function mergeTemplateSources(sources: TemplateSource[]): MergedTemplates {
+	const sorted = sortTemplateSources(sources);
+	// Higher priority definitions refine lower priority ones
+	const schema = mergeTemplateSchemas([...sorted].reverse().map((source) => source.schema));
+
+	const definitions = new Map<string, { template: string; value: unknown }[]>();
+	for (const source of sorted) {
+		for (const [property, value] of Object.entries(source.data)) {
+			const values = definitions.get(property) || [];
+			values.push({ template: source.name, value });
+			definitions.set(property, values);
+		}
+	}
+
+	const data: Record<string, any> = {};
+	const propertySources: Record<string, string[]> = {};
+	const conflicts: PropertyConflict[] = [];
+	for (const [property, values] of definitions) {
+		const strategy = schema[property]?.merge || "first";
+		data[property] = resolveValues(values.map(({ value }) => value), strategy);
+		propertySources[property] = values.map(({ template }) => template);
+
+		if (values.some(({ value }) => !isSameValue(value, values[0].value))) {
+			conflicts.push({ property, strategy, values, resolved: data[property] });
+		}
+	}
+
+	return { data, schema, sources: propertySources, conflicts };
+}
+
+function resolveValues(values: unknown[], strategy: MergeStrategy): unknown {
+	if (strategy === "last") return values[values.length - 1];
+	if (strategy !== "union") return values[0];
+
+	const union: unknown[] = [];
+	for (const value of values) {
+		const items = Array.isArray(value) ? value : value == null || value === "" ? [] : [value];
+		for (const item of items) {
+			if (!union.some((existing) => isSameValue(existing, item))) {
+				union.push(item);
+			}
+		}
+	}
+	return union;
+}
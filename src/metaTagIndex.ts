@@ -0,0 +1,63 @@
+/**
+ * Reverse lookups kept up to date from vault events, so finding the notes with a
+ * tag or the file of a template never scans the vault.
+ */
+export class MetaTagIndex {
+	// Note paths by tag, tags without `#`
+	notesByTag: Map<string, Set<string>> = new Map();
+	tagsByNote: Map<string, string[]> = new Map();
+	// Template file paths by template name
+	templatesByName: Map<string, string> = new Map();
+
+	setNoteTags(path: string, tags: string[]) {
+		this.removeNote(path);
+		const uniqueTags = [...new Set(tags)];
+		this.tagsByNote.set(path, uniqueTags);
+		for (const tag of uniqueTags) {
+			const notes = this.notesByTag.get(tag) || new Set();
+			notes.add(path);
+			this.notesByTag.set(tag, notes);
+		}
+	}
+
+	removeNote(path: string) {
+		for (const tag of this.tagsByNote.get(path) || []) {
+			const notes = this.notesByTag.get(tag);
+			notes?.delete(path);
+			if (notes?.size === 0) this.notesByTag.delete(tag);
+		}
+		this.tagsByNote.delete(path);
+	}
+
+	renameNote(oldPath: string, newPath: string) {
+		const tags = this.tagsByNote.get(oldPath);
+		if (!tags) return;
+		this.removeNote(oldPath);
+		this.setNoteTags(newPath, tags);
+	}
+
+	getNotesWithTag(tag: string): string[] {
+		return [...(this.notesByTag.get(tag) || [])];
+	}
+
+	setTemplate(name: string, path: string) {
+		this.removeTemplate(path);
+		this.templatesByName.set(name, path);
+	}
+
+	removeTemplate(path: string) {
+		for (const [name, templatePath] of this.templatesByName) {
+			if (templatePath === path) this.templatesByName.delete(name);
+		}
+	}
+
+	getTemplatePath(name: string): string | null {
+		return this.templatesByName.get(name) ?? null;
+	}
+
+	clear() {
+		this.notesByTag.clear();
+		this.tagsByNote.clear();
+		this.templatesByName.clear();
+	}
+}
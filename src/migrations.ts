@@ -0,0 +1,116 @@
+import { isSameValue } from "./changes";
+import { isEmptyValue } from "./schema";
+
+export type ConversionType = "list" | "text" | "number" | "checkbox";
+
+const CONVERSION_TYPES: ConversionType[] = ["list", "text", "number", "checkbox"];
+
+export interface PropertyMigration {
+	from: string;
+	to: string;
+	convert?: ConversionType;
+}
+
+/**
+ * Reads the `migrations` directive of a template. Each entry renames a property
+ * (`{ rename: author, to: authors }`), converts its value
+ * (`{ property: authors, convert: list }`) or both at once.
+ */
+export function parseTemplateMigrations(templateData: any): PropertyMigration[] {
+	const rawMigrations = templateData?.migrations;
+	if (!Array.isArray(rawMigrations)) return [];
+
+	const migrations: PropertyMigration[] = [];
+	for (const entry of rawMigrations) {
+		if (!entry || typeof entry !== "object") continue;
+
+		const from = typeof entry.rename === "string" ? entry.rename : entry.property;
+		if (typeof from !== "string" || from.length === 0) continue;
+
+		const migration: PropertyMigration = {
+			from,
+			to: typeof entry.to === "string" && entry.to.length > 0 ? entry.to : from,
+		};
+		if (CONVERSION_TYPES.includes(entry.convert)) {
+			migration.convert = entry.convert;
+		}
+		if (migration.from === migration.to && !migration.convert) continue;
+
+		migrations.push(migration);
+	}
+
+	return migrations;
+}
+
+/**
+ * Applies migrations to a note's frontmatter. Values that cannot be moved or
+ * converted are left in place and described in `problems`.
+ */
+export function migrateProperties(
+	noteData: Record<string, any>,
+	migrations: PropertyMigration[]
+): { data: Record<string, any>; problems: string[] } {
+	let data = { ...noteData };
+	const problems: string[] = [];
+
+	for (const migration of migrations) {
+		const { from, to } = migration;
+		if (!(from in data)) continue;
+
+		let value = data[from];
+		if (migration.convert && !isEmptyValue(value)) {
+			const converted = convertValue(value, migration.convert);
+			if (converted.error) {
+				problems.push(`"${from}": ${converted.error}`);
+				continue;
+			}
+			value = converted.value;
+		}
+
+		if (from === to) {
+			data[from] = value;
+			continue;
+		}
+
+		if (to in data && !isEmptyValue(data[to]) && !isSameValue(data[to], value)) {
+			problems.push(`"${from}" was not moved to "${to}" because "${to}" already has a value`);
+			continue;
+		}
+
+		// Rebuild the object so the renamed key takes the place of the old one
+		const migrated: Record<string, any> = {};
+		for (const [key, existing] of Object.entries(data)) {
+			if (key === from) {
+				migrated[to] = value;
+			} else if (key !== to) {
+				migrated[key] = existing;
+			}
+		}
+		data = migrated;
+	}
+
+	return { data, problems };
+}
+
+function convertValue(value: unknown, type: ConversionType): { value?: unknown; error?: string } {
+	switch (type) {
+		case "list":
+			return { value: Array.isArray(value) ? value : [value] };
+		case "text":
+			if (Array.isArray(value)) {
+				return value.length === 1
+					? { value: String(value[0]) }
+					: { error: "a list with several items cannot become text" };
+			}
+			return { value: typeof value === "object" ? JSON.stringify(value) : String(value) };
+		case "number": {
+			if (typeof value === "number") return { value };
+			const number = typeof value === "string" ? Number(value.trim()) : NaN;
+			return isNaN(number) ? { error: `"${value}" is not a number` } : { value: number };
+		}
+		case "checkbox":
+			if (typeof value === "boolean") return { value };
+			if (value === "true" || value === "false") return { value: value === "true" };
+			return { error: `"${value}" is not true or false` };
+	}
+}
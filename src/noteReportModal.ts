@@ -0,0 +1,58 @@
+import { App, Modal, TFile } from "obsidian";
+
+export interface NoteReport {
+	file: TFile;
+	messages: string[];
+}
+
+/**
+ * Lists notes with the problems found in each of them; clicking a note opens it.
+ */
+export class NoteReportModal extends Modal {
+	title: string;
+	emptyText: string;
+	reports: NoteReport[];
+
+	constructor(app: App, title: string, emptyText: string, reports: NoteReport[]) {
+		super(app);
+		this.title = title;
+		this.emptyText = emptyText;
+		this.reports = reports;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText(this.title);
+
+		if (this.reports.length === 0) {
+			contentEl.createEl("p", { text: this.emptyText });
+			return;
+		}
+
+		const total = this.reports.reduce((sum, report) => sum + report.messages.length, 0);
+		contentEl.createEl("p", {
+			text: `${total} problem(s) in ${this.reports.length} note(s).`,
+		});
+
+		for (const { file, messages } of this.reports) {
+			const noteEl = contentEl.createDiv({ cls: "metatag-report-note" });
+			const linkEl = noteEl.createEl("a", { text: file.path, href: "#" });
+			linkEl.addEventListener("click", async (event) => {
+				event.preventDefault();
+				await this.app.workspace.getLeaf(false).openFile(file);
+				this.close();
+			});
+
+			const listEl = noteEl.createEl("ul");
+			for (const message of messages) {
+				listEl.createEl("li", { text: message });
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
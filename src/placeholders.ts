@@ -0,0 +1,103 @@
+export interface PlaceholderContext {
+	title: string;
+	folder: string;
+	created: number;
+	modified: number;
+	now: number;
+	// The note's properties, used by {{property:name}}
+	properties: Record<string, any>;
+	formatDate: (timestamp: number, format: string) => string;
+}
+
+// Asks the user for a value; resolves to null when the prompt is dismissed
+export type PromptHandler = (question: string, defaultValue: string) => Promise<string | null>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*(\w+)(?::([^}]*))?\s*\}\}$/;
+
+export function hasPlaceholders(value: unknown): boolean {
+	if (typeof value === "string") return PLACEHOLDER_PATTERN.test(value);
+	if (Array.isArray(value)) return value.some((item) => hasPlaceholders(item));
+	return false;
+}
+
+/**
+ * Replaces placeholders in a template default:
+ * `{{date}}`, `{{date:YYYY-MM-DD}}`, `{{time:HH:mm}}`, `{{title}}`, `{{folder}}`,
+ * `{{created:FORMAT}}`, `{{modified:FORMAT}}`, `{{property:name}}` and
+ * `{{prompt:Question|default}}`. A value that is a single `{{property:name}}`
+ * keeps the type of the referenced value. Without a prompt handler, prompts
+ * resolve to their default.
+ */
+export async function resolvePlaceholders(
+	value: unknown,
+	context: PlaceholderContext,
+	prompt?: PromptHandler
+): Promise<unknown> {
+	if (Array.isArray(value)) {
+		const resolved = [];
+		for (const item of value) {
+			resolved.push(await resolvePlaceholders(item, context, prompt));
+		}
+		return resolved;
+	}
+
+	if (typeof value !== "string" || !hasPlaceholders(value)) return value;
+
+	const single = value.trim().match(SINGLE_PLACEHOLDER_PATTERN);
+	if (single) {
+		return await resolvePlaceholder(single[1], single[2], context, prompt);
+	}
+
+	const pattern = new RegExp(PLACEHOLDER_PATTERN.source, "g");
+	let result = "";
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(value)) !== null) {
+		const resolved = await resolvePlaceholder(match[1], match[2], context, prompt);
+		result += value.substring(lastIndex, match.index) + stringifyResolved(resolved);
+		lastIndex = match.index + match[0].length;
+	}
+	return result + value.substring(lastIndex);
+}
+
+async function resolvePlaceholder(
+	name: string,
+	argument: string | undefined,
+	context: PlaceholderContext,
+	prompt?: PromptHandler
+): Promise<unknown> {
+	const arg = argument?.trim();
+
+	switch (name.toLowerCase()) {
+		case "date":
+			return context.formatDate(context.now, arg || "YYYY-MM-DD");
+		case "time":
+			return context.formatDate(context.now, arg || "HH:mm");
+		case "created":
+			return context.formatDate(context.created, arg || "YYYY-MM-DD");
+		case "modified":
+			return context.formatDate(context.modified, arg || "YYYY-MM-DD");
+		case "title":
+			return context.title;
+		case "folder":
+			return context.folder;
+		case "property":
+			return arg ? context.properties[arg] ?? "" : "";
+		case "prompt": {
+			const [question, defaultValue = ""] = (argument || "").split("|");
+			if (!prompt) return defaultValue.trim();
+			const answer = await prompt(question.trim() || "Value", defaultValue.trim());
+			return answer ?? "";
+		}
+		default:
+			// Leave unknown placeholders untouched
+			return argument === undefined ? `{{${name}}}` : `{{${name}:${argument}}}`;
+	}
+}
+
+function stringifyResolved(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (Array.isArray(value)) return value.join(", ");
+	return String(value);
+}
@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks for a single text value. Resolves to null when dismissed.
+ */
+export class PromptModal extends Modal {
+	question: string;
+	value: string;
+	resolve: (value: string | null) => void;
+	submitted = false;
+
+	constructor(app: App, question: string, defaultValue: string) {
+		super(app);
+		this.question = question;
+		this.value = defaultValue;
+	}
+
+	/**
+	 * Opens the modal and waits for the answer.
+	 */
+	ask(): Promise<string | null> {
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText(this.question);
+
+		new Setting(contentEl).addText((text) => {
+			text.setValue(this.value).onChange((value) => (this.value = value));
+			text.inputEl.addEventListener("keydown", (event) => {
+				if (event.key === "Enter") {
+					event.preventDefault();
+					this.submit();
+				}
+			});
+			window.setTimeout(() => text.inputEl.focus(), 0);
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => button.setButtonText("Skip").onClick(() => this.close()))
+			.addButton((button) =>
+				button
+					.setButtonText("OK")
+					.setCta()
+					.onClick(() => this.submit())
+			);
+	}
+
+	submit() {
+		this.submitted = true;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve?.(this.submitted ? this.value : null);
+	}
+}
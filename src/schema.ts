@@ -0,0 +1,240 @@
+export type PropertyType =
+	| "text"
+	| "number"
+	| "date"
+	| "list"
+	| "checkbox"
+	| "enum"
+	| "link";
+
+export const PROPERTY_TYPES: PropertyType[] = [
+	"text",
+	"number",
+	"date",
+	"list",
+	"checkbox",
+	"enum",
+	"link",
+];
+
+/**
+ * How a template keeps a property in sync with its notes:
+ * - add: copy the default when the note lacks the property (the default)
+ * - enforce: always overwrite the note's value with the template value
+ * - lock: like enforce, and edits in the note are flagged as read-only
+ * - keep: add like `add`, but never remove it from notes
+ */
+export type PropertyPolicy = "add" | "enforce" | "lock" | "keep";
+
+export const PROPERTY_POLICIES: PropertyPolicy[] = ["add", "enforce", "lock", "keep"];
+
+/**
+ * Which value wins when several MetaTags on a note define the same property:
+ * - first: the template with the highest priority (the default)
+ * - last: the template with the lowest priority
+ * - union: all list items combined, in priority order
+ */
+export type MergeStrategy = "first" | "last" | "union";
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ["first", "last", "union"];
+
+export interface PropertySchema {
+	type?: PropertyType;
+	required?: boolean;
+	pattern?: string;
+	values?: unknown[];
+	policy?: PropertyPolicy;
+	merge?: MergeStrategy;
+}
+
+export type TemplateSchema = Record<string, PropertySchema>;
+
+export interface SchemaViolation {
+	property: string;
+	kind: "missing" | "invalid";
+	message: string;
+}
+
+// Returns true when a link target exists in the vault
+export type LinkResolver = (linkText: string) => boolean;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+const LINK_PATTERN = /^\[\[([^\]|#]+)(#[^\]|]*)?(\|[^\]]*)?\]\]$/;
+
+/**
+ * Reads the `schema` directive of a template. Each property accepts either a
+ * type name (`pages: number`), a list of allowed values (`status: [draft, done]`)
+ * or a full definition (`isbn: { type: text, required: true, pattern: "^\\d{13}$" }`).
+ * A definition may also set the sync `policy` and the `merge` strategy of the property.
+ */
+export function parseTemplateSchema(templateData: any): TemplateSchema {
+	const rawSchema = templateData?.schema;
+	const schema: TemplateSchema = {};
+	if (!rawSchema || typeof rawSchema !== "object" || Array.isArray(rawSchema)) {
+		return schema;
+	}
+
+	for (const [property, definition] of Object.entries(rawSchema)) {
+		if (typeof definition === "string") {
+			if (isPropertyType(definition)) {
+				schema[property] = { type: definition };
+			}
+		} else if (Array.isArray(definition)) {
+			schema[property] = { type: "enum", values: definition };
+		} else if (definition && typeof definition === "object") {
+			const { type, required, pattern, values, policy, merge } = definition as any;
+			const propertySchema: PropertySchema = {};
+			if (isPropertyType(type)) propertySchema.type = type;
+			if (Array.isArray(values)) {
+				propertySchema.values = values;
+				if (!propertySchema.type) propertySchema.type = "enum";
+			}
+			if (required === true) propertySchema.required = true;
+			if (typeof pattern === "string" && pattern.length > 0) {
+				propertySchema.pattern = pattern;
+			}
+			if (PROPERTY_POLICIES.includes(policy)) {
+				propertySchema.policy = policy;
+			}
+			if (MERGE_STRATEGIES.includes(merge)) {
+				propertySchema.merge = merge;
+			}
+			schema[property] = propertySchema;
+		}
+	}
+
+	return schema;
+}
+
+/**
+ * Returns true when the template value overrides whatever the note holds.
+ */
+export function isEnforcedProperty(schema: TemplateSchema, property: string): boolean {
+	const policy = schema[property]?.policy;
+	return policy === "enforce" || policy === "lock";
+}
+
+/**
+ * Merges schemas in order; later definitions refine earlier ones property by property.
+ */
+export function mergeTemplateSchemas(schemas: TemplateSchema[]): TemplateSchema {
+	const merged: TemplateSchema = {};
+	for (const schema of schemas) {
+		for (const [property, definition] of Object.entries(schema)) {
+			merged[property] = { ...merged[property], ...definition };
+		}
+	}
+	return merged;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+/**
+ * Checks a note's frontmatter against a template schema.
+ */
+export function validateProperties(
+	noteData: any,
+	schema: TemplateSchema,
+	resolveLink?: LinkResolver
+): SchemaViolation[] {
+	const violations: SchemaViolation[] = [];
+
+	for (const [property, definition] of Object.entries(schema)) {
+		const value = noteData?.[property];
+
+		if (isEmptyValue(value)) {
+			if (definition.required) {
+				violations.push({
+					property,
+					kind: "missing",
+					message: `"${property}" is required`,
+				});
+			}
+			continue;
+		}
+
+		const message = validateValue(value, definition, resolveLink);
+		if (message) {
+			violations.push({ property, kind: "invalid", message: `"${property}" ${message}` });
+		}
+	}
+
+	return violations;
+}
+
+function validateValue(
+	value: unknown,
+	definition: PropertySchema,
+	resolveLink?: LinkResolver
+): string | null {
+	switch (definition.type) {
+		case "text":
+			if (typeof value !== "string") return "must be text";
+			break;
+		case "number":
+			if (typeof value !== "number" || !isFinite(value)) return "must be a number";
+			break;
+		case "checkbox":
+			if (typeof value !== "boolean") return "must be a checkbox (true or false)";
+			break;
+		case "date":
+			if (
+				typeof value !== "string" ||
+				!DATE_PATTERN.test(value) ||
+				isNaN(Date.parse(value))
+			) {
+				return "must be a date (YYYY-MM-DD)";
+			}
+			break;
+		case "list":
+			if (!Array.isArray(value)) return "must be a list";
+			break;
+		case "enum": {
+			const allowed = definition.values || [];
+			const values = Array.isArray(value) ? value : [value];
+			const invalid = values.filter((item) => !allowed.includes(item));
+			if (invalid.length > 0) {
+				return `must be one of: ${allowed.join(", ")}`;
+			}
+			break;
+		}
+		case "link": {
+			const links = Array.isArray(value) ? value : [value];
+			for (const link of links) {
+				const match = typeof link === "string" ? link.match(LINK_PATTERN) : null;
+				if (!match) return "must be a link to a note ([[Note]])";
+				if (resolveLink && !resolveLink(match[1].trim())) {
+					return `links to a missing note: ${match[1].trim()}`;
+				}
+			}
+			break;
+		}
+	}
+
+	if (definition.pattern) {
+		let regex: RegExp;
+		try {
+			regex = new RegExp(definition.pattern);
+		} catch (e) {
+			console.warn(`MetaTags: invalid schema pattern "${definition.pattern}"`, e);
+			return null;
+		}
+		const values = Array.isArray(value) ? value : [value];
+		if (values.some((item) => !regex.test(String(item)))) {
+			return `does not match ${definition.pattern}`;
+		}
+	}
+
+	return null;
+}
+
+function isPropertyType(type: unknown): type is PropertyType {
+	return typeof type === "string" && PROPERTY_TYPES.includes(type as PropertyType);
+}
@@ -0,0 +1,180 @@
+import { findFrontmatter } from "./frontmatter";
+
+/**
+ * A heading and everything below it up to the next heading of the same or a
+ * higher level.
+ */
+export interface BodySection {
+	heading: string;
+	level: number;
+	// The heading line as written
+	headingLine: string;
+	// The text below the heading, without the heading line
+	content: string;
+	start: number;
+	end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)[ \t#]*$/;
+const FENCE_PATTERN = /^[ \t]*(```|~~~)/;
+
+/**
+ * Splits a note body into sections. Headings inside fenced code blocks are ignored.
+ */
+export function parseSections(body: string): BodySection[] {
+	const headings: { heading: string; level: number; headingLine: string; start: number; contentStart: number }[] = [];
+
+	let fence: string | null = null;
+	let lineStart = 0;
+	while (lineStart < body.length) {
+		const lineEnd = body.indexOf("\n", lineStart);
+		const next = lineEnd === -1 ? body.length : lineEnd + 1;
+		const line = body.substring(lineStart, lineEnd === -1 ? body.length : lineEnd).replace(/\r$/, "");
+
+		const fenceMatch = line.match(FENCE_PATTERN);
+		if (fenceMatch) {
+			if (!fence) fence = fenceMatch[1];
+			else if (fence === fenceMatch[1]) fence = null;
+		} else if (!fence) {
+			const match = line.match(HEADING_PATTERN);
+			if (match) {
+				headings.push({
+					heading: match[2],
+					level: match[1].length,
+					headingLine: line,
+					start: lineStart,
+					contentStart: next,
+				});
+			}
+		}
+		lineStart = next;
+	}
+
+	return headings.map((heading, index) => {
+		const following = headings
+			.slice(index + 1)
+			.find((other) => other.level <= heading.level);
+		const end = following ? following.start : body.length;
+		return {
+			heading: heading.heading,
+			level: heading.level,
+			headingLine: heading.headingLine,
+			content: body.substring(Math.min(heading.contentStart, end), end),
+			start: heading.start,
+			end,
+		};
+	});
+}
+
+/**
+ * Returns the body of a note, after its frontmatter.
+ */
+export function getNoteBody(content: string): { frontmatter: string; body: string } {
+	const block = findFrontmatter(content);
+	const bodyStart = block ? block.end : 0;
+	return { frontmatter: content.substring(0, bodyStart), body: content.substring(bodyStart) };
+}
+
+/**
+ * Puts a new body after the frontmatter of a note.
+ */
+export function setNoteBody(content: string, body: string): string {
+	const { frontmatter } = getNoteBody(content);
+	// A closing delimiter on the last line has no line break yet
+	const separator = frontmatter && !frontmatter.endsWith("\n") && body ? "\n" : "";
+	return frontmatter + separator + body;
+}
+
+/**
+ * Lists the headings of the sections that differ between two versions of a body.
+ */
+export function getChangedSectionHeadings(before: string, after: string): string[] {
+	const previousSections = parseSections(before);
+	return parseSections(after)
+		.filter((section) => {
+			const previous = previousSections.find((p) => isSameHeading(p.heading, section.heading));
+			return !previous || !isSameSectionContent(previous.content, section.content);
+		})
+		.map((section) => section.heading);
+}
+
+/**
+ * Picks the sections a template syncs: all top-level sections of its body for
+ * `sections: true`, or the ones named in a `sections` list.
+ */
+export function getTemplateSections(body: string, directive: unknown): BodySection[] {
+	if (directive !== true && !Array.isArray(directive)) return [];
+
+	const sections = parseSections(body);
+	if (directive === true) {
+		const topLevel = Math.min(...sections.map((section) => section.level));
+		return sections.filter((section) => section.level === topLevel);
+	}
+
+	const names = directive.filter((name): name is string => typeof name === "string");
+	return sections.filter((section) =>
+		names.some((name) => isSameHeading(name.replace(/^#+\s*/, ""), section.heading))
+	);
+}
+
+export function isSameHeading(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Appends the template sections the note has no heading for. Existing sections
+ * are never touched.
+ */
+export function insertMissingSections(body: string, templateSections: BodySection[]): string {
+	const noteSections = parseSections(body);
+	const missing = templateSections.filter(
+		(section) => !noteSections.some((noteSection) => isSameHeading(noteSection.heading, section.heading))
+	);
+	if (missing.length === 0) return body;
+
+	const lineBreak = body.includes("\r\n") ? "\r\n" : "\n";
+	let result = body.replace(/\s+$/, "");
+	for (const section of missing) {
+		const content = section.content.replace(/\s+$/, "");
+		if (result.length > 0) result += lineBreak + lineBreak;
+		result += section.headingLine + (content ? lineBreak + content : "");
+	}
+	return result + lineBreak;
+}
+
+/**
+ * Replaces note sections that still match the previous template text with the
+ * current template text. Sections the note has edited are left alone.
+ */
+export function updateUntouchedSections(
+	body: string,
+	previousSections: BodySection[],
+	currentSections: BodySection[]
+): string {
+	let result = body;
+	for (const current of currentSections) {
+		const previous = previousSections.find((section) => isSameHeading(section.heading, current.heading));
+		if (!previous || isSameSectionContent(previous.content, current.content)) continue;
+
+		// Offsets move with every replacement, so sections are located again each time
+		const noteSection = parseSections(result).find((section) =>
+			isSameHeading(section.heading, current.heading)
+		);
+		if (!noteSection || !isSameSectionContent(noteSection.content, previous.content)) continue;
+
+		const trailing = noteSection.content.match(/\s*$/)?.[0] || "";
+		const content = current.content.replace(/\s+$/, "");
+		const lineBreak = result.includes("\r\n") ? "\r\n" : "\n";
+		result =
+			result.substring(0, noteSection.start) +
+			noteSection.headingLine +
+			lineBreak +
+			(content ? content + (trailing || lineBreak) : trailing) +
+			result.substring(noteSection.end);
+	}
+	return result;
+}
+
+function isSameSectionContent(a: string, b: string): boolean {
+	return a.replace(/\r\n/g, "\n").trim() === b.replace(/\r\n/g, "\n").trim();
+}
@@ -0,0 +1,110 @@
+import { App, FuzzyMatch, FuzzySuggestModal, TFile, TFolder } from "obsidian";
+import { formatFrontmatterValue } from "./changes";
+import { isEmptyValue } from "./schema";
+
+/**
+ * Fuzzy picker over MetaTag template names, optionally previewing the
+ * properties each template adds.
+ */
+export class TemplateSuggestModal extends FuzzySuggestModal<string> {
+	templateNames: string[];
+	onChoose: (templateName: string) => void;
+	previews: Map<string, Record<string, unknown>>;
+
+	constructor(
+		app: App,
+		templateNames: string[],
+		onChoose: (templateName: string) => void,
+		previews: Map<string, Record<string, unknown>> = new Map()
+	) {
+		super(app);
+		this.templateNames = templateNames;
+		this.onChoose = onChoose;
+		this.previews = previews;
+		this.setPlaceholder("Choose a MetaTag template");
+		this.emptyStateText = "No matching MetaTag templates";
+	}
+
+	getItems(): string[] {
+		return this.templateNames;
+	}
+
+	getItemText(templateName: string): string {
+		return templateName;
+	}
+
+	renderSuggestion(match: FuzzyMatch<string>, el: HTMLElement) {
+		super.renderSuggestion(match, el);
+
+		const preview = this.previews.get(match.item);
+		if (!preview) return;
+
+		const properties = Object.entries(preview).map(([key, value]) =>
+			isEmptyValue(value) ? key : `${key}: ${formatFrontmatterValue(value)}`
+		);
+		el.createEl("small", {
+			cls: "metatag-template-preview",
+			text: properties.length > 0 ? properties.join(" · ") : "No properties",
+		});
+	}
+
+	onChooseItem(templateName: string) {
+		this.onChoose(templateName);
+	}
+}
+
+/**
+ * Fuzzy picker over the folders of the vault.
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	onChoose: (folder: TFolder) => void;
+
+	constructor(app: App, onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a folder");
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault
+			.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onChoose(folder);
+	}
+}
+
+/**
+ * Fuzzy picker over the vault files with one of the given extensions.
+ */
+export class FileSuggestModal extends FuzzySuggestModal<TFile> {
+	extensions: string[];
+	onChoose: (file: TFile) => void;
+
+	constructor(app: App, extensions: string[], onChoose: (file: TFile) => void, placeholder = "Choose a file") {
+		super(app);
+		this.extensions = extensions;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getFiles()
+			.filter((file) => this.extensions.includes(file.extension.toLowerCase()));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
@@ -0,0 +1,127 @@
+import { isSameValue } from "./changes";
+import { hasPlaceholders } from "./placeholders";
+import { TemplateSchema, isEmptyValue, isEnforcedProperty } from "./schema";
+
+/**
+ * Resolves a template default for one note, e.g. its placeholders. Receives the
+ * note's properties as they would be after the sync.
+ */
+export type DefaultResolver = (value: any, properties: any) => Promise<any>;
+
+/**
+ * Compares the properties a template gave notes before and after an edit.
+ */
+export function getPropertyChanges(
+	prevProps: string[],
+	currProps: string[]
+): { added: string[]; removed: string[] } {
+	return {
+		added: currProps.filter((prop) => !prevProps.includes(prop)),
+		removed: prevProps.filter((prop) => !currProps.includes(prop)),
+	};
+}
+
+/**
+ * Overwrites enforced and locked properties with the template value. Defaults
+ * with placeholders are only resolved once, so they are never re-enforced.
+ */
+export function enforceTemplateValues(noteData: any, templateData: any, schema: TemplateSchema) {
+	for (const prop of Object.keys(templateData)) {
+		if (!isEnforcedProperty(schema, prop)) continue;
+		if (prop in noteData && hasPlaceholders(templateData[prop])) continue;
+
+		if (!isSameValue(noteData[prop], templateData[prop])) {
+			noteData[prop] = templateData[prop];
+		}
+	}
+}
+
+/**
+ * Gives a note the template properties it lacks. Existing values win, except
+ * for enforced and locked properties; only the added defaults are resolved.
+ */
+export async function applyTemplateDefaults(
+	noteData: any,
+	templateData: any,
+	schema: TemplateSchema,
+	resolveDefault: DefaultResolver
+): Promise<any> {
+	const newData: any = { ...templateData, ...noteData };
+	enforceTemplateValues(newData, templateData, schema);
+
+	for (const key of Object.keys(templateData)) {
+		if (!(key in noteData)) {
+			newData[key] = await resolveDefault(newData[key], newData);
+		}
+	}
+	return newData;
+}
+
+/**
+ * Spreads template property changes to a note: added properties are filled in
+ * when missing, removed ones are dropped while still empty, and enforced ones
+ * are reset. Properties with the `keep` policy are never removed.
+ */
+export async function syncTemplateProperties(
+	noteData: any,
+	addedProps: string[],
+	removedProps: string[],
+	templateData: any,
+	schema: TemplateSchema,
+	resolveDefault: DefaultResolver
+): Promise<any> {
+	const newData = { ...noteData };
+
+	for (const prop of addedProps) {
+		// If the property already exists in the note, leave it unchanged
+		if (!(prop in newData)) {
+			newData[prop] = await resolveDefault(templateData[prop], { ...templateData, ...newData });
+		}
+	}
+
+	enforceTemplateValues(newData, templateData, schema);
+
+	for (const prop of removedProps) {
+		// If the property has a value, leave it unchanged
+		if (
+			prop in newData &&
+			schema[prop]?.policy !== "keep" &&
+			(newData[prop] === "" || newData[prop] == null)
+		) {
+			delete newData[prop];
+		}
+	}
+
+	return newData;
+}
+
+/**
+ * Drops the template's properties a note never filled in, when the template is
+ * removed from it. Checkboxes count as unused while they hold the default.
+ */
+export function removeEmptyTemplateProperties(
+	noteData: any,
+	templateData: any,
+	schema: TemplateSchema
+): any {
+	const newData = { ...noteData };
+
+	for (const key of Object.keys(newData)) {
+		if (!Object.prototype.hasOwnProperty.call(templateData, key)) continue;
+		if (schema[key]?.policy === "keep") continue;
+
+		const noteValue = newData[key];
+		const templateValue = templateData[key];
+		// Prefer the declared type and only fall back to guessing from the default
+		const propertyType =
+			schema[key]?.type ?? (typeof templateValue === "boolean" ? "checkbox" : undefined);
+
+		if (isEmptyValue(noteValue)) {
+			delete newData[key];
+		} else if (propertyType === "checkbox" && noteValue === templateValue) {
+			delete newData[key];
+		}
+	}
+
+	return newData;
+}
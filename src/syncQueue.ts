@@ -0,0 +1,121 @@
+export interface SyncQueueOptions {
+	// How long a file has to be quiet before it is handled, in milliseconds
+	delay: number;
+	setTimer?: (callback: () => void, delay: number) => unknown;
+	clearTimer?: (handle: unknown) => void;
+}
+
+/**
+ * Collects change events per file and hands each file to the handler once its
+ * events settle. Files are handled one at a time, so handlers never race on
+ * shared state; a file that changes while it is being handled is queued again,
+ * so no edit is lost. Events caused by the plugin's own writes are recognised
+ * by the state the write left behind and skipped.
+ */
+export class SyncQueue {
+	handler: (path: string) => Promise<void>;
+	delay: number;
+	setTimer: (callback: () => void, delay: number) => unknown;
+	clearTimer: (handle: unknown) => void;
+
+	timers: Map<string, unknown> = new Map();
+	// Paths whose events have settled, in the order they are handled
+	ready: string[] = [];
+	// The state each of our own writes left a file in, by path
+	expectedWrites: Map<string, string> = new Map();
+	running = false;
+	idleCallbacks: (() => void)[] = [];
+
+	constructor(handler: (path: string) => Promise<void>, options: SyncQueueOptions) {
+		this.handler = handler;
+		this.delay = options.delay;
+		this.setTimer = options.setTimer || ((callback, delay) => setTimeout(callback, delay));
+		this.clearTimer =
+			options.clearTimer || ((handle) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+	}
+
+	/**
+	 * Records that the plugin just wrote a file, leaving it in the given state.
+	 */
+	expectWrite(path: string, state: string) {
+		this.expectedWrites.set(path, state);
+	}
+
+	/**
+	 * Reports a change event. Returns false when the event only echoes one of our
+	 * own writes; any other state is queued, even if a write was expected.
+	 */
+	push(path: string, state?: string): boolean {
+		const expected = this.expectedWrites.get(path);
+		this.expectedWrites.delete(path);
+		if (expected !== undefined && expected === state) return false;
+
+		const timer = this.timers.get(path);
+		if (timer !== undefined) this.clearTimer(timer);
+		this.timers.set(
+			path,
+			this.setTimer(() => this.settle(path), this.delay)
+		);
+		return true;
+	}
+
+	/**
+	 * Moves a queued path to its new name, keeping its pending events.
+	 */
+	rename(oldPath: string, newPath: string) {
+		const timer = this.timers.get(oldPath);
+		if (timer !== undefined) {
+			this.clearTimer(timer);
+			this.timers.delete(oldPath);
+			this.push(newPath);
+		}
+		this.ready = this.ready.map((path) => (path === oldPath ? newPath : path));
+		this.expectedWrites.delete(oldPath);
+	}
+
+	get pending(): number {
+		return this.timers.size + this.ready.length + (this.running ? 1 : 0);
+	}
+
+	/**
+	 * Resolves once every queued file has been handled.
+	 */
+	whenIdle(): Promise<void> {
+		if (this.pending === 0) return Promise.resolve();
+		return new Promise((resolve) => this.idleCallbacks.push(resolve));
+	}
+
+	clear() {
+		this.timers.forEach((timer) => this.clearTimer(timer));
+		this.timers.clear();
+		this.ready = [];
+		this.expectedWrites.clear();
+	}
+
+	settle(path: string) {
+		this.timers.delete(path);
+		if (!this.ready.includes(path)) this.ready.push(path);
+		this.drain();
+	}
+
+	async drain() {
+		if (this.running) return;
+		this.running = true;
+
+		while (this.ready.length > 0) {
+			const path = this.ready.shift() as string;
+			try {
+				await this.handler(path);
+			} catch (e) {
+				console.error(`MetaTags: failed to handle changes to "${path}"`, e);
+			}
+		}
+
+		this.running = false;
+		if (this.pending === 0) {
+			const callbacks = this.idleCallbacks;
+			this.idleCallbacks = [];
+			callbacks.forEach((callback) => callback());
+		}
+	}
+}
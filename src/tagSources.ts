@@ -0,0 +1,59 @@
+/**
+ * Where a note's MetaTags are read from: its frontmatter tags, its frontmatter
+ * and inline tags, or a dedicated `metatags` property listing template names.
+ */
+export type MetaTagSource = "frontmatter" | "inline" | "property";
+
+export const META_TAG_SOURCES: Record<MetaTagSource, string> = {
+	frontmatter: "Frontmatter tags",
+	inline: "Frontmatter and inline tags",
+	property: "The metatags property",
+};
+
+// Frontmatter key that lists a note's MetaTags when the source is "property"
+export const META_TAG_PROPERTY = "metatags";
+
+/**
+ * Returns a frontmatter value as a list, the way Obsidian reads list properties.
+ */
+export function getPropertyList(frontmatter: any, key: string): any[] {
+	const value = frontmatter?.[key];
+	if (value === undefined || value === null || value === "") return [];
+	return Array.isArray(value) ? [...value] : [value];
+}
+
+export function stripHash(tag: string): string {
+	return tag.startsWith("#") ? tag.substring(1) : tag;
+}
+
+/**
+ * Renames an inline tag in a note body, or removes it when newTag is null.
+ * Nested tags (`#a/b/c` for `a/b`) and fenced code blocks are left alone.
+ */
+export function replaceInlineTag(body: string, oldTag: string, newTag: string | null): string {
+	const escaped = oldTag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const pattern = new RegExp(`(^|[ \\t])#${escaped}(?=$|[\\s,.;:!?()\\[\\]"'])`, "g");
+
+	let inFence = false;
+	const lines: string[] = [];
+	for (const line of body.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+		if (inFence || !pattern.test(line)) {
+			lines.push(line);
+			continue;
+		}
+		pattern.lastIndex = 0;
+
+		if (newTag !== null) {
+			lines.push(line.replace(pattern, (_match, lead) => `${lead}#${newTag}`));
+			continue;
+		}
+
+		// Each removed tag takes the whitespace before it along
+		let newLine = line.replace(pattern, "");
+		if (newLine.trim() === "") continue;
+		if (!/^\s/.test(line)) newLine = newLine.trimStart();
+		lines.push(newLine);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,181 @@
+import * as YAML from "yaml";
+import { diffFrontmatter, formatFrontmatterValue } from "./changes";
+import { getNoteBody } from "./sections";
+import { parseFrontmatter } from "./frontmatter";
+
+export type BundleFormat = "json" | "yaml";
+
+export const BUNDLE_VERSION = 1;
+
+/**
+ * A shareable set of templates. Each template keeps its whole file, so body
+ * sections travel along with the frontmatter.
+ */
+export interface TemplateBundle {
+	version: number;
+	exportedAt: string;
+	settings: BundleSettings;
+	templates: BundleTemplate[];
+}
+
+/**
+ * The plugin settings a bundle carries along with its templates.
+ */
+export interface BundleSettings {
+	tagBase?: string;
+	templatePriority?: string[];
+	inheritFolderTemplates?: boolean;
+	deleteEmptyMetatagProperties?: boolean;
+	templateOnlyKeys?: string[];
+}
+
+type BundleSettingType = "text" | "list" | "toggle";
+
+const BUNDLE_SETTING_TYPES: Record<keyof BundleSettings, BundleSettingType> = {
+	tagBase: "text",
+	templatePriority: "list",
+	inheritFolderTemplates: "toggle",
+	deleteEmptyMetatagProperties: "toggle",
+	templateOnlyKeys: "list",
+};
+
+const BUNDLE_SETTING_DESCRIPTIONS: Record<BundleSettingType, string> = {
+	text: "non-empty text",
+	list: "a list of text",
+	toggle: "true or false",
+};
+
+export interface BundleTemplate {
+	name: string;
+	content: string;
+}
+
+export type ImportStatus = "new" | "changed" | "unchanged";
+
+export interface TemplateImport {
+	template: BundleTemplate;
+	status: ImportStatus;
+	// Human readable differences to the existing template
+	changes: string[];
+}
+
+export class BundleParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BundleParseError";
+	}
+}
+
+export function serializeBundle(bundle: TemplateBundle, format: BundleFormat): string {
+	if (format === "yaml") {
+		return YAML.stringify(bundle, { lineWidth: 0 });
+	}
+	return JSON.stringify(bundle, null, "\t") + "\n";
+}
+
+/**
+ * Reads a bundle written as JSON or YAML.
+ */
+export function parseBundle(text: string): TemplateBundle {
+	let data: any;
+	try {
+		data = text.trim().startsWith("{") ? JSON.parse(text) : YAML.parse(text);
+	} catch (e) {
+		throw new BundleParseError(`not valid JSON or YAML (${e instanceof Error ? e.message : e})`);
+	}
+
+	if (!data || typeof data !== "object" || !Array.isArray(data.templates)) {
+		throw new BundleParseError("no templates found");
+	}
+	if (typeof data.version === "number" && data.version > BUNDLE_VERSION) {
+		throw new BundleParseError(`bundle version ${data.version} is newer than this plugin supports`);
+	}
+
+	const templates: BundleTemplate[] = [];
+	for (const template of data.templates) {
+		if (typeof template?.name !== "string" || typeof template?.content !== "string") {
+			throw new BundleParseError("every template needs a name and content");
+		}
+		const name = template.name.trim().replace(/^\/+|\.md$/g, "");
+		if (!name || name.split("/").includes("..")) {
+			throw new BundleParseError(`invalid template name "${template.name}"`);
+		}
+		templates.push({ name, content: template.content });
+	}
+
+	return {
+		version: typeof data.version === "number" ? data.version : BUNDLE_VERSION,
+		exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+		settings: parseBundleSettings(data.settings),
+		templates,
+	};
+}
+
+/**
+ * Keeps the known settings of a bundle, checking that each has the type the plugin expects.
+ */
+function parseBundleSettings(settings: unknown): BundleSettings {
+	if (settings == null) return {};
+	if (typeof settings !== "object" || Array.isArray(settings)) {
+		throw new BundleParseError("settings must be a map of setting names to values");
+	}
+
+	const parsed: Record<string, unknown> = {};
+	for (const [key, type] of Object.entries(BUNDLE_SETTING_TYPES)) {
+		const value = (settings as Record<string, unknown>)[key];
+		if (value === undefined) continue;
+		if (!isBundleSettingValue(value, type)) {
+			throw new BundleParseError(
+				`the "${key}" setting must be ${BUNDLE_SETTING_DESCRIPTIONS[type]}`
+			);
+		}
+		parsed[key] = value;
+	}
+	return parsed as BundleSettings;
+}
+
+function isBundleSettingValue(value: unknown, type: BundleSettingType): boolean {
+	if (type === "toggle") return typeof value === "boolean";
+	if (type === "text") return typeof value === "string" && value.trim().length > 0;
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Compares a bundled template with the existing one of the same name.
+ */
+export function planTemplateImport(template: BundleTemplate, existingContent: string | null): TemplateImport {
+	if (existingContent === null) {
+		return { template, status: "new", changes: [] };
+	}
+	if (existingContent === template.content) {
+		return { template, status: "unchanged", changes: [] };
+	}
+
+	const changes: string[] = [];
+	try {
+		const before = parseFrontmatter(existingContent);
+		const after = parseFrontmatter(template.content);
+		const { added, removed, changed } = diffFrontmatter(before, after);
+		for (const key of added) {
+			changes.push(`+ ${key}: ${formatFrontmatterValue(after[key])}`);
+		}
+		for (const key of changed) {
+			changes.push(`- ${key}: ${formatFrontmatterValue(before[key])}`);
+			changes.push(`+ ${key}: ${formatFrontmatterValue(after[key])}`);
+		}
+		for (const key of removed) {
+			changes.push(`- ${key}: ${formatFrontmatterValue(before[key])}`);
+		}
+	} catch (e) {
+		changes.push("! the frontmatter could not be compared");
+	}
+
+	if (getNoteBody(existingContent).body.trim() !== getNoteBody(template.content).body.trim()) {
+		changes.push("~ the note body differs");
+	}
+	if (changes.length === 0) {
+		changes.push("~ formatting differs");
+	}
+
+	return { template, status: "changed", changes };
+}
@@ -0,0 +1,125 @@
+import { App, Modal, Setting } from "obsidian";
+import { FrontmatterChange, diffFrontmatter, formatFrontmatterValue } from "./changes";
+
+/**
+ * Shows the per-note frontmatter and section changes a template sync is about to
+ * make and lets the user apply all, some or none of them.
+ */
+export class TemplateSyncPreviewModal extends Modal {
+	title: string;
+	changes: FrontmatterChange[];
+	selected: Set<FrontmatterChange>;
+	onApply: (changes: FrontmatterChange[]) => Promise<void>;
+
+	constructor(
+		app: App,
+		title: string,
+		changes: FrontmatterChange[],
+		onApply: (changes: FrontmatterChange[]) => Promise<void>
+	) {
+		super(app);
+		this.title = title;
+		this.changes = changes;
+		this.selected = new Set(changes);
+		this.onApply = onApply;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText(this.title);
+
+		if (this.changes.length === 0) {
+			contentEl.createEl("p", { text: "No notes need to change." });
+			return;
+		}
+
+		contentEl.createEl("p", {
+			text: `${this.changes.length} note(s) will be updated. Uncheck the notes you want to leave untouched.`,
+		});
+
+		const listEl = contentEl.createDiv({ cls: "metatag-sync-preview" });
+		const checkboxes: HTMLInputElement[] = [];
+
+		for (const change of this.changes) {
+			const noteEl = listEl.createDiv({ cls: "metatag-sync-preview-note" });
+			const labelEl = noteEl.createEl("label");
+			const checkbox = labelEl.createEl("input", { type: "checkbox" });
+			checkbox.checked = true;
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(change);
+				} else {
+					this.selected.delete(change);
+				}
+			});
+			checkboxes.push(checkbox);
+			labelEl.appendText(` ${change.file.path}`);
+
+			const { added, removed, changed } = diffFrontmatter(change.before, change.after);
+			const diffEl = noteEl.createEl("pre", { cls: "metatag-sync-preview-diff" });
+			for (const key of added) {
+				diffEl.createDiv({
+					cls: "metatag-diff-added",
+					text: `+ ${key}: ${formatFrontmatterValue(change.after[key])}`,
+				});
+			}
+			for (const key of changed) {
+				diffEl.createDiv({
+					cls: "metatag-diff-removed",
+					text: `- ${key}: ${formatFrontmatterValue(change.before[key])}`,
+				});
+				diffEl.createDiv({
+					cls: "metatag-diff-added",
+					text: `+ ${key}: ${formatFrontmatterValue(change.after[key])}`,
+				});
+			}
+			for (const key of removed) {
+				diffEl.createDiv({
+					cls: "metatag-diff-removed",
+					text: `- ${key}: ${formatFrontmatterValue(change.before[key])}`,
+				});
+			}
+			for (const heading of change.body?.sections || []) {
+				diffEl.createDiv({ cls: "metatag-diff-added", text: `~ section: ${heading}` });
+			}
+			for (const problem of change.problems || []) {
+				diffEl.createDiv({ cls: "metatag-diff-problem", text: `! ${problem}` });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Select all").onClick(() => {
+					checkboxes.forEach((checkbox) => (checkbox.checked = true));
+					this.selected = new Set(this.changes);
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Select none").onClick(() => {
+					checkboxes.forEach((checkbox) => (checkbox.checked = false));
+					this.selected.clear();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Apply selected")
+					.setCta()
+					.onClick(async () => {
+						const selectedChanges = this.changes.filter((change) =>
+							this.selected.has(change)
+						);
+						this.close();
+						await this.onApply(selectedChanges);
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
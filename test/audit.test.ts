@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./harness/harness";
+
+describe("the MetaTag audit", () => {
+	it("lists properties that no template of the note declares", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nauthor: \"\"\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\nauthor: Herbert\nmood: hopeful\n---\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		const audit = await harness.plugin.auditMetaTags();
+
+		const book = audit.templates.find((template) => template.name === "book");
+		assert.deepEqual(book?.extra.map(({ properties }) => properties), [["mood"]]);
+	});
+
+	it("does not list the MetaTag property when it is the MetaTag source", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nauthor: \"\"\n---\n",
+				"Dune.md": "---\nmetatags: [book]\nauthor: Herbert\n---\n",
+			},
+			settings: { templateFolderPath: "Templates", metaTagSource: "property" },
+		});
+
+		const audit = await harness.plugin.auditMetaTags();
+
+		const book = audit.templates.find((template) => template.name === "book");
+		assert.deepEqual(book?.notes.map((note) => note.path), ["Dune.md"]);
+		assert.deepEqual(book?.extra, []);
+	});
+});
@@ -0,0 +1,172 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+	FrontmatterParseError,
+	findFrontmatter,
+	parseFrontmatter,
+	updateFrontmatter,
+} from "../src/frontmatter";
+import { createHarness } from "./harness/harness";
+
+describe("findFrontmatter", () => {
+	it("only treats a block on the first line as frontmatter", () => {
+		const content = "# Title\n\n---\nnot: frontmatter\n---\n";
+		assert.equal(findFrontmatter(content), null);
+		assert.deepEqual(parseFrontmatter(content), {});
+	});
+
+	it("finds empty frontmatter", () => {
+		const block = findFrontmatter("---\n---\nBody");
+		assert.equal(block?.yaml, "");
+		assert.deepEqual(parseFrontmatter("---\n---\nBody"), {});
+	});
+
+	it("needs a closing delimiter", () => {
+		assert.equal(findFrontmatter("---\ntitle: Open\n"), null);
+	});
+
+	it("reads Windows line breaks", () => {
+		assert.deepEqual(parseFrontmatter("---\r\ntitle: Dune\r\n---\r\nBody"), { title: "Dune" });
+	});
+});
+
+describe("updateFrontmatter", () => {
+	it("returns the note unchanged when nothing differs", () => {
+		const content = "---\ntitle:   'Dune'   # spacing kept\ntags: [a, b]\n---\nBody";
+		assert.equal(updateFrontmatter(content, { title: "Dune", tags: ["a", "b"] }), content);
+	});
+
+	it("rewrites only the keys that changed", () => {
+		const content = [
+			"---",
+			"# Reading list",
+			"title: 'Dune'",
+			"published: 1965-08-01",
+			"tags: [fiction, sf]",
+			"rating: 3 # out of 5",
+			"---",
+			"Body",
+		].join("\n");
+
+		const updated = updateFrontmatter(content, {
+			...parseFrontmatter(content),
+			rating: 4,
+		});
+
+		assert.equal(
+			updated,
+			[
+				"---",
+				"# Reading list",
+				"title: 'Dune'",
+				"published: 1965-08-01",
+				"tags: [fiction, sf]",
+				"rating: 4",
+				"---",
+				"Body",
+			].join("\n")
+		);
+	});
+
+	it("keeps the quoting and flow style of replaced values", () => {
+		const content = "---\ntitle: \"Dune\"\ntags: [a]\n---\n";
+		assert.equal(
+			updateFrontmatter(content, { title: "Dune Messiah", tags: ["a", "b"] }),
+			"---\ntitle: \"Dune Messiah\"\ntags: [a, b]\n---\n"
+		);
+	});
+
+	it("appends new keys and cuts out removed ones", () => {
+		const content = "---\ntitle: Dune\nobsolete: yes\n---\nBody";
+		assert.equal(
+			updateFrontmatter(content, { title: "Dune", author: "Herbert" }),
+			"---\ntitle: Dune\nauthor: Herbert\n---\nBody"
+		);
+	});
+
+	it("keeps comments around a removed key", () => {
+		const content = "---\n# Source\nauthor: Herbert\nobsolete: yes\n# Reading\nrating: 4\n---\n";
+		assert.equal(
+			updateFrontmatter(content, { author: "Herbert", rating: 4 }),
+			"---\n# Source\nauthor: Herbert\n# Reading\nrating: 4\n---\n"
+		);
+	});
+
+	it("removes a block value with all of its lines", () => {
+		const content = "---\nlist:\n  - a\n  - b\ntitle: Dune\n---\n";
+		assert.equal(updateFrontmatter(content, { title: "Dune" }), "---\ntitle: Dune\n---\n");
+	});
+
+	it("writes empty values as empty properties", () => {
+		assert.equal(updateFrontmatter("---\n---\n", { author: null }), "---\nauthor:\n---\n");
+	});
+
+	it("adds frontmatter to a note without any, leaving horizontal rules alone", () => {
+		const content = "Intro\n\n---\n\nMore";
+		assert.equal(
+			updateFrontmatter(content, { title: "Dune" }),
+			"---\ntitle: Dune\n---\nIntro\n\n---\n\nMore"
+		);
+	});
+
+	it("does not add a blank line after the closing delimiter", () => {
+		assert.equal(
+			updateFrontmatter("---\ntitle: Dune\n---\n# Heading", { title: "Arrakis" }),
+			"---\ntitle: Arrakis\n---\n# Heading"
+		);
+	});
+
+	it("keeps Windows line breaks", () => {
+		assert.equal(
+			updateFrontmatter("---\r\ntitle: Dune\r\n---\r\nBody", { title: "Dune", rating: 5 }),
+			"---\r\ntitle: Dune\r\nrating: 5\r\n---\r\nBody"
+		);
+	});
+
+	it("refuses to rewrite frontmatter that is not valid YAML", () => {
+		assert.throws(
+			() => updateFrontmatter("---\ntitle: [unclosed\n---\n", { title: "Dune" }),
+			FrontmatterParseError
+		);
+		assert.throws(() => updateFrontmatter("---\n- a\n- b\n---\n", { title: "Dune" }), FrontmatterParseError);
+	});
+});
+
+describe("writes made by the plugin", () => {
+	const book = "---\nauthor: \"\"\nrating: 0\n---\n";
+
+	it("leave comments, quoting and dates of the note as they were", async () => {
+		const frontmatter = [
+			"# Imported from the old vault",
+			"title: 'Dune'",
+			"published: 1965-08-01",
+			"aliases: [Arrakis]",
+		].join("\n");
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": `---\n${frontmatter}\n---\nBody\n` },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.plugin.api.applyMetaTag(harness.file("Dune.md"), "book");
+		await harness.settle();
+
+		assert.equal(
+			harness.read("Dune.md"),
+			`---\n${frontmatter}\nauthor: ""\nrating: 0\ntags:\n  - mt/book\n---\nBody\n`
+		);
+	});
+
+	it("leave horizontal rules in a note without frontmatter alone", async () => {
+		const body = "Intro\n\n---\n\nMore\n";
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": body },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.plugin.api.applyMetaTag(harness.file("Dune.md"), "book");
+		await harness.settle();
+
+		assert.ok(harness.read("Dune.md").endsWith(`\n---\n${body}`), harness.read("Dune.md"));
+		assert.equal(harness.frontmatter("Dune.md").rating, 0);
+	});
+});
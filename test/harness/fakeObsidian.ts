@@ -0,0 +1,171 @@
+/**
+ * Stand-in for the `obsidian` module when the plugin runs under Node. Only what
+ * the plugin touches outside the UI behaves; views and modals render nothing.
+ * The test runner resolves `obsidian` imports to this file.
+ */
+import moment from "moment";
+
+export { moment };
+
+// Obsidian provides these as globals
+const globals = globalThis as any;
+globals.sleep ??= (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+globals.document ??= {};
+
+export interface EventRef {
+	name: string;
+	callback: (...data: any[]) => unknown;
+}
+
+export class Events {
+	handlers: Map<string, EventRef[]> = new Map();
+
+	on(name: string, callback: (...data: any[]) => unknown): EventRef {
+		const ref = { name, callback };
+		this.handlers.set(name, [...(this.handlers.get(name) || []), ref]);
+		return ref;
+	}
+
+	off(name: string, callback: (...data: any[]) => unknown) {
+		this.handlers.set(
+			name,
+			(this.handlers.get(name) || []).filter((ref) => ref.callback !== callback)
+		);
+	}
+
+	offref(ref: EventRef) {
+		this.off(ref.name, ref.callback);
+	}
+
+	trigger(name: string, ...data: any[]) {
+		for (const ref of this.handlers.get(name) || []) {
+			ref.callback(...data);
+		}
+	}
+}
+
+export function normalizePath(path: string): string {
+	return path
+		.replace(/\\/g, "/")
+		.replace(/\/+/g, "/")
+		.replace(/^\/|\/$/g, "");
+}
+
+export abstract class TAbstractFile {
+	path: string;
+	name: string;
+	parent: TFolder | null = null;
+
+	constructor(path: string) {
+		this.path = path;
+		this.name = path.substring(path.lastIndexOf("/") + 1);
+	}
+}
+
+export class TFile extends TAbstractFile {
+	basename: string;
+	extension: string;
+	stat = { ctime: 0, mtime: 0, size: 0 };
+
+	constructor(path: string) {
+		super(path);
+		const dot = this.name.lastIndexOf(".");
+		this.basename = dot === -1 ? this.name : this.name.substring(0, dot);
+		this.extension = dot === -1 ? "" : this.name.substring(dot + 1);
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === "";
+	}
+}
+
+export class Notice {
+	static messages: string[] = [];
+
+	constructor(message: string) {
+		Notice.messages.push(message);
+	}
+}
+
+export class Component {
+	registerEvent(ref: EventRef) {}
+	registerDomEvent(el: unknown, type: string, callback: unknown, options?: unknown) {}
+	registerInterval(id: number): number {
+		return id;
+	}
+}
+
+export class Plugin extends Component {
+	app: any;
+	manifest: any;
+	data: any = null;
+
+	constructor(app: any, manifest: any) {
+		super();
+		this.app = app;
+		this.manifest = manifest;
+	}
+
+	addCommand(command: unknown) {}
+	addSettingTab(tab: unknown) {}
+	addRibbonIcon() {}
+	registerView(type: string, create: unknown) {}
+
+	async loadData(): Promise<any> {
+		return this.data;
+	}
+
+	async saveData(data: any) {
+		this.data = data;
+	}
+}
+
+export class Modal {
+	app: any;
+
+	constructor(app: any) {
+		this.app = app;
+	}
+
+	open() {}
+	close() {}
+}
+
+export class SuggestModal<T> extends Modal {
+	onChooseSuggestion?(item: T, evt: unknown): void;
+}
+
+export class FuzzySuggestModal<T> extends Modal {
+	onChooseItem?(item: T, evt: unknown): void;
+}
+
+export class PluginSettingTab {
+	app: any;
+	plugin: any;
+
+	constructor(app: any, plugin: any) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+}
+
+export class ItemView extends Component {
+	leaf: any;
+
+	constructor(leaf: any) {
+		super();
+		this.leaf = leaf;
+	}
+}
+
+export class MarkdownView extends ItemView {
+	file: TFile | null = null;
+}
+
+export class Setting {}
+export class Menu {}
+export class ButtonComponent {}
@@ -0,0 +1,203 @@
+import { Events, TAbstractFile, TFile, TFolder, normalizePath } from "./fakeObsidian";
+import { findFrontmatter, parseFrontmatter } from "../../src/frontmatter";
+
+/**
+ * An in-memory vault. Writes update the metadata cache right away and announce
+ * the change on the next tick, as Obsidian does once it has parsed the file.
+ */
+export class FakeVault extends Events {
+	contents: Map<string, string> = new Map();
+	files: Map<string, TAbstractFile> = new Map();
+	root = new TFolder("");
+	adapter = new FakeAdapter();
+	metadataCache: FakeMetadataCache;
+
+	constructor() {
+		super();
+		this.files.set("", this.root);
+		this.metadataCache = new FakeMetadataCache(this);
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.files.get(normalizePath(path)) ?? null;
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return [...this.files.values()].filter(
+			(file): file is TFile => file instanceof TFile && file.extension === "md"
+		);
+	}
+
+	async read(file: TFile): Promise<string> {
+		const content = this.contents.get(file.path);
+		if (content === undefined) throw new Error(`"${file.path}" does not exist`);
+		return content;
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async create(path: string, content: string): Promise<TFile> {
+		path = normalizePath(path);
+		if (this.files.has(path)) throw new Error(`"${path}" already exists`);
+
+		const file = new TFile(path);
+		file.parent = this.getOrCreateFolder(path.substring(0, Math.max(path.lastIndexOf("/"), 0)));
+		file.parent.children.push(file);
+		this.files.set(path, file);
+		this.contents.set(path, content);
+
+		this.metadataCache.update(file);
+		this.trigger("create", file);
+		return file;
+	}
+
+	async modify(file: TFile, content: string) {
+		if (!this.contents.has(file.path)) throw new Error(`"${file.path}" does not exist`);
+		this.contents.set(file.path, content);
+		file.stat = { ...file.stat, mtime: file.stat.mtime + 1 };
+		this.metadataCache.update(file);
+		this.trigger("modify", file);
+	}
+
+	async createFolder(path: string) {
+		this.getOrCreateFolder(normalizePath(path));
+	}
+
+	getOrCreateFolder(path: string): TFolder {
+		const existing = this.files.get(path);
+		if (existing instanceof TFolder) return existing;
+
+		const folder = new TFolder(path);
+		folder.parent = this.getOrCreateFolder(path.substring(0, Math.max(path.lastIndexOf("/"), 0)));
+		folder.parent.children.push(folder);
+		this.files.set(path, folder);
+		return folder;
+	}
+}
+
+export interface FakeCachedMetadata {
+	frontmatter?: Record<string, any>;
+	tags?: { tag: string }[];
+}
+
+/**
+ * Parses notes the way Obsidian's metadata cache exposes them: the frontmatter
+ * as an object and the inline tags of the body.
+ */
+export class FakeMetadataCache extends Events {
+	vault: FakeVault;
+	cache: Map<string, FakeCachedMetadata> = new Map();
+	// Change events not announced yet
+	pendingEvents = 0;
+
+	constructor(vault: FakeVault) {
+		super();
+		this.vault = vault;
+	}
+
+	getFileCache(file: TFile): FakeCachedMetadata | null {
+		return this.cache.get(file.path) ?? null;
+	}
+
+	getFirstLinkpathDest(linkText: string, sourcePath: string): TFile | null {
+		return (
+			this.vault
+				.getMarkdownFiles()
+				.find((file) => file.basename === linkText || file.path === `${linkText}.md`) ?? null
+		);
+	}
+
+	update(file: TFile) {
+		const content = this.vault.contents.get(file.path) || "";
+		const metadata: FakeCachedMetadata = {};
+		try {
+			if (findFrontmatter(content)) metadata.frontmatter = parseFrontmatter(content);
+		} catch (e) {
+			// Obsidian ignores frontmatter that is not valid YAML
+		}
+		const tags = getInlineTags(content);
+		if (tags.length > 0) metadata.tags = tags.map((tag) => ({ tag }));
+		this.cache.set(file.path, metadata);
+
+		this.pendingEvents++;
+		setTimeout(() => {
+			this.pendingEvents--;
+			this.trigger("changed", file, content, metadata);
+		}, 0);
+	}
+}
+
+/**
+ * Finds `#tags` in the body of a note, outside of fenced code blocks.
+ */
+export function getInlineTags(content: string): string[] {
+	const block = findFrontmatter(content);
+	const body = block ? content.substring(block.end) : content;
+
+	const tags: string[] = [];
+	let inFence = false;
+	for (const line of body.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+		if (inFence) continue;
+		const pattern = /(?:^|\s)(#[^\s#,.;:!?()[\]"']+)/g;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(line)) !== null) {
+			tags.push(match[1]);
+		}
+	}
+	return tags;
+}
+
+/**
+ * Keeps plugin data files, like the undo journal, in memory.
+ */
+export class FakeAdapter {
+	data: Map<string, string> = new Map();
+
+	async exists(path: string): Promise<boolean> {
+		return this.data.has(path);
+	}
+
+	async read(path: string): Promise<string> {
+		const content = this.data.get(path);
+		if (content === undefined) throw new Error(`"${path}" does not exist`);
+		return content;
+	}
+
+	async write(path: string, content: string) {
+		this.data.set(path, content);
+	}
+}
+
+/**
+ * A workspace without any open views.
+ */
+export class FakeWorkspace extends Events {
+	onLayoutReady(callback: () => void) {
+		callback();
+	}
+
+	getActiveFile(): TFile | null {
+		return null;
+	}
+
+	getActiveViewOfType(): null {
+		return null;
+	}
+
+	getLeavesOfType(): unknown[] {
+		return [];
+	}
+
+	getLeaf() {
+		return { openFile: async () => {} };
+	}
+
+	getRightLeaf(): null {
+		return null;
+	}
+
+	revealLeaf() {}
+}
@@ -0,0 +1,98 @@
+import type { TFile as ObsidianFile } from "obsidian";
+import MetaTagsPlugin from "../../main";
+import { Notice, TFile } from "./fakeObsidian";
+import { FakeVault, FakeWorkspace } from "./fakeVault";
+
+export interface HarnessOptions {
+	// Note contents by path
+	files?: Record<string, string>;
+	settings?: Record<string, unknown>;
+}
+
+/**
+ * Runs the plugin against an in-memory vault. Edits made through the harness
+ * reach the plugin the way user edits do: as metadata change events.
+ */
+export class Harness {
+	vault: FakeVault;
+	plugin: MetaTagsPlugin;
+
+	constructor(vault: FakeVault, plugin: MetaTagsPlugin) {
+		this.vault = vault;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Returns a note as the plugin sees it.
+	 */
+	file(path: string): ObsidianFile {
+		const file = this.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) throw new Error(`"${path}" does not exist`);
+		return file as unknown as ObsidianFile;
+	}
+
+	read(path: string): string {
+		const content = this.vault.contents.get(path);
+		if (content === undefined) throw new Error(`"${path}" does not exist`);
+		return content;
+	}
+
+	frontmatter(path: string): Record<string, any> {
+		return this.vault.metadataCache.getFileCache(this.file(path) as unknown as TFile)?.frontmatter || {};
+	}
+
+	/**
+	 * Edits or creates a note like the user would, then waits for the plugin.
+	 */
+	async write(path: string, content: string) {
+		const file = this.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.vault.modify(file, content);
+		} else {
+			await this.vault.create(path, content);
+		}
+		await this.settle();
+	}
+
+	/**
+	 * Waits until every change event is announced and the sync queue is idle,
+	 * including the events caused by the plugin's own writes.
+	 */
+	async settle() {
+		for (let round = 0; round < 20; round++) {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			if (this.vault.metadataCache.pendingEvents > 0) continue;
+			if (this.plugin.syncQueue.pending === 0) return;
+			await this.plugin.syncQueue.whenIdle();
+		}
+		throw new Error("the plugin did not settle");
+	}
+
+	get notices(): string[] {
+		return Notice.messages;
+	}
+}
+
+export async function createHarness(options: HarnessOptions = {}): Promise<Harness> {
+	const vault = new FakeVault();
+	for (const [path, content] of Object.entries(options.files || {})) {
+		await vault.create(path, content);
+	}
+	// Files that exist at startup are loaded, not created
+	await new Promise((resolve) => setTimeout(resolve, 1));
+
+	const app = {
+		vault,
+		metadataCache: vault.metadataCache,
+		workspace: new FakeWorkspace(),
+	};
+	const manifest = { id: "metatags", name: "MetaTags", version: "0.0.0", dir: ".obsidian/plugins/metatags" };
+	const plugin = new MetaTagsPlugin(app as any, manifest as any);
+	await plugin.saveData({ ...(options.settings || {}) });
+	await plugin.onload();
+	// Handle events as soon as they arrive instead of waiting for typing to pause
+	plugin.syncQueue.delay = 0;
+
+	Notice.messages = [];
+	return new Harness(vault, plugin);
+}
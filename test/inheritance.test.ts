@@ -0,0 +1,23 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./harness/harness";
+
+describe("template inheritance", () => {
+	it("reports a cycle once per template edit", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/a.md": "---\nextends: b\nfrom_a: \"\"\n---\n",
+				"Templates/b.md": "---\nextends: a\nfrom_b: \"\"\n---\n",
+				"Templates/c.md": "---\nextends: a\n---\n",
+				"Note.md": "---\ntags: [mt/c]\n---\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Templates/a.md", "---\nextends: b\nfrom_a: \"\"\nrating: 0\n---\n");
+
+		const cycleNotices = harness.notices.filter((notice) => notice.includes("cycle"));
+		assert.equal(cycleNotices.length, 1, cycleNotices.join("\n"));
+		assert.equal(harness.frontmatter("Note.md").rating, 0, "the edit still reaches the notes");
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TemplateSource, mergeTemplateSources } from "../src/merge";
+import { createHarness } from "./harness/harness";
+
+function source(name: string, data: Record<string, any>, rank = 0, schema = {}): TemplateSource {
+	return { name, data, schema, rank };
+}
+
+describe("mergeTemplateSources", () => {
+	it("lets the template with the lowest rank win, then orders by name", () => {
+		const merged = mergeTemplateSources([
+			source("film", { status: "to watch" }, 1),
+			source("book", { status: "to read" }, 1),
+			source("course", { status: "enrolled" }, 0),
+		]);
+
+		assert.equal(merged.data.status, "enrolled");
+		assert.deepEqual(merged.sources.status, ["course", "book", "film"]);
+		assert.equal(merged.conflicts.length, 1);
+		assert.equal(merged.conflicts[0].resolved, "enrolled");
+	});
+
+	it("does not report templates that agree as a conflict", () => {
+		const merged = mergeTemplateSources([
+			source("book", { tags: ["media"], rating: 0 }),
+			source("film", { tags: ["media"], rating: 0 }),
+		]);
+
+		assert.deepEqual(merged.data, { tags: ["media"], rating: 0 });
+		assert.deepEqual(merged.conflicts, []);
+	});
+
+	it("combines list values with the union strategy", () => {
+		const merged = mergeTemplateSources([
+			source("book", { topics: ["reading", "media"] }, 0, { topics: { merge: "union" } }),
+			source("film", { topics: "media" }, 1),
+			source("podcast", { topics: ["audio"] }, 2),
+		]);
+
+		assert.deepEqual(merged.data.topics, ["reading", "media", "audio"]);
+		assert.equal(merged.schema.topics.merge, "union");
+	});
+
+	it("takes the value of the lowest priority template with the last strategy", () => {
+		const merged = mergeTemplateSources([
+			source("book", { status: "to read" }, 0, { status: { merge: "last" } }),
+			source("film", { status: "to watch" }, 1),
+		]);
+
+		assert.equal(merged.data.status, "to watch");
+	});
+});
+
+describe("a note with two MetaTags", () => {
+	const files = {
+		"Templates/book.md": "---\nstatus: to read\ntopics: [reading]\n---\n",
+		"Templates/film.md": [
+			"---",
+			"status: to watch",
+			"topics: [watching]",
+			"schema:",
+			"  topics: { merge: union }",
+			"---",
+			"",
+		].join("\n"),
+		"Dune.md": "---\ntitle: Dune\n---\n",
+	};
+
+	it("takes conflicting defaults from the template listed first in the priority", async () => {
+		const harness = await createHarness({
+			files,
+			settings: { templateFolderPath: "Templates", templatePriority: ["film"] },
+		});
+
+		await harness.write("Dune.md", "---\ntitle: Dune\ntags: [mt/book, mt/film]\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").status, "to watch");
+		assert.deepEqual(harness.frontmatter("Dune.md").topics, ["watching", "reading"]);
+	});
+
+	it("orders templates by name when none is prioritised", async () => {
+		const harness = await createHarness({ files, settings: { templateFolderPath: "Templates" } });
+
+		await harness.write("Dune.md", "---\ntitle: Dune\ntags: [mt/film, mt/book]\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").status, "to read");
+		assert.deepEqual(harness.frontmatter("Dune.md").topics, ["reading", "watching"]);
+		assert.equal("schema" in harness.frontmatter("Dune.md"), false);
+	});
+
+	it("keeps priority and merging when one of the templates is edited", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/project.md": [
+					"---",
+					"status: active",
+					"topics: [work]",
+					"schema:",
+					"  status: { policy: enforce }",
+					"  topics: { merge: union }",
+					"---",
+					"",
+				].join("\n"),
+				"Templates/book.md": [
+					"---",
+					"status: reading",
+					"topics: [reading]",
+					"schema:",
+					"  status: { policy: enforce }",
+					"---",
+					"",
+				].join("\n"),
+				"Dune.md": "---\ntags: [mt/book, mt/project]\nstatus: active\ntopics: [work, reading]\n---\n",
+			},
+			settings: { templateFolderPath: "Templates", templatePriority: ["project", "book"] },
+		});
+
+		await harness.write(
+			"Templates/book.md",
+			"---\nstatus: reading\ntopics: [reading]\nauthor: \"\"\nschema:\n  status: { policy: enforce }\n---\n"
+		);
+
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			tags: ["mt/book", "mt/project"],
+			status: "active",
+			topics: ["work", "reading"],
+			author: "",
+		});
+	});
+
+	it("keeps a property removed from one template while another still defines it", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nseries:\n---\n",
+				"Templates/film.md": "---\nseries:\n---\n",
+				"Dune.md": "---\ntags: [mt/book, mt/film]\nseries:\n---\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Templates/book.md", "---\n---\n");
+
+		assert.equal("series" in harness.frontmatter("Dune.md"), true);
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./harness/harness";
+
+const settings = { templateFolderPath: "Templates" };
+
+describe("editing a template", () => {
+	it("adds a new property to the tagged notes only", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nauthor: \"\"\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\nauthor: Herbert\n---\nBody\n",
+				"Groceries.md": "---\ntags: [list]\n---\nMilk\n",
+			},
+			settings,
+		});
+
+		await harness.write("Templates/book.md", "---\nauthor: \"\"\nrating: 0\n---\n");
+
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			tags: ["mt/book"],
+			author: "Herbert",
+			rating: 0,
+		});
+		assert.equal(harness.read("Groceries.md"), "---\ntags: [list]\n---\nMilk\n");
+	});
+
+	it("drops a removed property where it is empty and keeps it where it is filled", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nauthor: \"\"\nseries:\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\nauthor: Herbert\nseries: Dune\n---\n",
+				"Hyperion.md": "---\ntags: [mt/book]\nauthor: Simmons\nseries:\n---\n",
+			},
+			settings,
+		});
+
+		await harness.write("Templates/book.md", "---\nauthor: \"\"\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").series, "Dune");
+		assert.deepEqual(Object.keys(harness.frontmatter("Hyperion.md")), ["tags", "author"]);
+	});
+
+	it("never drops a removed property with the keep policy", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nseries:\nschema:\n  series: { policy: keep }\n---\n",
+				"Hyperion.md": "---\ntags: [mt/book]\nseries:\n---\n",
+			},
+			settings,
+		});
+
+		await harness.write("Templates/book.md", "---\nschema:\n  series: { policy: keep }\n---\n");
+
+		assert.equal("series" in harness.frontmatter("Hyperion.md"), true);
+	});
+
+	it("keeps tags, directives and template-only keys out of notes", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": "---\nauthor: \"\"\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\nauthor: Herbert\n---\n",
+			},
+			settings: { ...settings, templateOnlyKeys: ["cssclasses"] },
+		});
+
+		await harness.write(
+			"Templates/book.md",
+			[
+				"---",
+				"author: \"\"",
+				"tags: [template]",
+				"cssclasses: [wide]",
+				"metatag.icon: book",
+				"schema:",
+				"  author: text",
+				"---",
+				"",
+			].join("\n")
+		);
+
+		assert.deepEqual(harness.frontmatter("Dune.md"), { tags: ["mt/book"], author: "Herbert" });
+	});
+
+	it("reaches the notes of templates that extend it", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/media.md": "---\ntitle: \"\"\n---\n",
+				"Templates/book.md": "---\nextends: media\nauthor: \"\"\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\ntitle: Dune\nauthor: Herbert\n---\n",
+			},
+			settings,
+		});
+
+		await harness.write("Templates/media.md", "---\ntitle: \"\"\nrating: 0\n---\n");
+
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			tags: ["mt/book"],
+			title: "Dune",
+			author: "Herbert",
+			rating: 0,
+		});
+		assert.equal("extends" in harness.frontmatter("Dune.md"), false);
+	});
+});
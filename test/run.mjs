@@ -0,0 +1,51 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// Bundles every test with the plugin sources, replacing the `obsidian` module,
+// which only exists inside the app, with the in-memory fake.
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "metatags-tests-"));
+
+const fakeObsidian = {
+	name: "fake-obsidian",
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({
+			path: path.join(testDir, "harness", "fakeObsidian.ts"),
+		}));
+	},
+};
+
+const filter = process.argv[2];
+const testFiles = fs
+	.readdirSync(testDir)
+	.filter((name) => name.endsWith(".test.ts"))
+	.filter((name) => !filter || name.includes(filter));
+
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints: testFiles.map((name) => path.join(testDir, name)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		outdir: outDir,
+		sourcemap: "inline",
+		logLevel: "error",
+		plugins: [fakeObsidian],
+	});
+
+	const result = spawnSync(
+		process.execPath,
+		["--test", ...testFiles.map((name) => path.join(outDir, name.replace(/\.ts$/, ".js")))],
+		{ stdio: "inherit" }
+	);
+	status = result.status ?? 1;
+} finally {
+	fs.rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./harness/harness";
+
+const template = (summary: string) => `---\nsections: true\n---\n## Summary\n${summary}\n`;
+const note = (summary: string) => `---\ntags: [mt/book]\n---\n## Summary\n${summary}\n`;
+
+describe("editing a template's sections", () => {
+	it("updates untouched sections and records them in the journal", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": template("What is it about?"),
+				"Dune.md": note("What is it about?"),
+				"Hyperion.md": note("Pilgrims on a journey."),
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Templates/book.md", template("In one sentence:"));
+
+		assert.equal(harness.read("Dune.md"), note("In one sentence:"));
+		assert.equal(harness.read("Hyperion.md"), note("Pilgrims on a journey."));
+
+		const batch = harness.plugin.journal.getLastBatch();
+		assert.deepEqual(batch?.entries.map((entry) => entry.path), ["Dune.md"]);
+
+		await harness.plugin.undoJournalBatch(batch!);
+		await harness.settle();
+		assert.equal(harness.read("Dune.md"), note("What is it about?"));
+	});
+
+	it("waits for the preview when previews are enabled", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": template("What is it about?"),
+				"Dune.md": note("What is it about?"),
+			},
+			settings: { templateFolderPath: "Templates", previewTemplateChanges: true },
+		});
+
+		await harness.write("Templates/book.md", template("In one sentence:"));
+
+		assert.equal(harness.read("Dune.md"), note("What is it about?"));
+	});
+
+	it("keeps a section the user edited after the sync was planned", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": template("What is it about?"),
+				"Dune.md": note("What is it about?"),
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+		const changes = await harness.plugin.planTemplateSectionSync(
+			harness.file("Templates/book.md"),
+			"book"
+		);
+		assert.equal(changes.length, 0, "the sections are already in the cache");
+
+		await harness.vault.modify(harness.file("Templates/book.md") as any, template("In one sentence:"));
+		const [change] = await harness.plugin.planTemplateSectionSync(
+			harness.file("Templates/book.md"),
+			"book"
+		);
+		assert.deepEqual(change.body?.sections, ["Summary"]);
+
+		await harness.write("Dune.md", note("A desert planet."));
+		assert.equal(await harness.plugin.applyFrontmatterChange(change), false);
+		assert.equal(harness.read("Dune.md"), note("A desert planet."));
+	});
+
+	it("does not bring back a section the note deleted", async () => {
+		const meeting = (actionItems: string, extra = "") =>
+			`---\nsections: true\n---\n## Attendees\n\n## Action items\n${actionItems}\n${extra}`;
+		const harness = await createHarness({
+			files: {
+				"Templates/meeting.md": meeting("- [ ] "),
+				"Standup.md": "---\ntags: [mt/meeting]\n---\n## Attendees\nAlice, Bob\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Templates/meeting.md", meeting("- [ ] Owner:", "## Decisions\n"));
+
+		assert.equal(
+			harness.read("Standup.md"),
+			"---\ntags: [mt/meeting]\n---\n## Attendees\nAlice, Bob\n\n## Decisions\n"
+		);
+	});
+});
@@ -0,0 +1,278 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SyncQueue } from "../src/syncQueue";
+import { Harness, createHarness } from "./harness/harness";
+
+/**
+ * A queue whose timers only fire when the test says so.
+ */
+function createQueue(handler: (path: string) => Promise<void>) {
+	const timers = new Map<number, () => void>();
+	let nextId = 0;
+	const queue = new SyncQueue(handler, {
+		delay: 100,
+		setTimer: (callback) => {
+			timers.set(++nextId, callback);
+			return nextId;
+		},
+		clearTimer: (handle) => timers.delete(handle as number),
+	});
+
+	const fireTimers = async () => {
+		const callbacks = [...timers.values()];
+		timers.clear();
+		callbacks.forEach((callback) => callback());
+		await queue.whenIdle();
+	};
+	return { queue, timers, fireTimers };
+}
+
+describe("SyncQueue", () => {
+	it("handles a burst of events for one file once", async () => {
+		const handled: string[] = [];
+		const { queue, timers, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		for (let i = 0; i < 10; i++) queue.push("a.md", `state ${i}`);
+		assert.equal(timers.size, 1, "each event restarts the file's timer");
+
+		await fireTimers();
+		assert.deepEqual(handled, ["a.md"]);
+		assert.equal(queue.pending, 0);
+	});
+
+	it("never drops a file because another one changed", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		queue.push("a.md");
+		queue.push("b.md");
+		queue.push("a.md");
+
+		await fireTimers();
+		assert.deepEqual(handled.sort(), ["a.md", "b.md"]);
+	});
+
+	it("skips the echo of its own write but not a later edit", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		queue.expectWrite("a.md", "written");
+		assert.equal(queue.push("a.md", "written"), false);
+		assert.equal(queue.pending, 0);
+
+		// The expectation is used up by the echo
+		assert.equal(queue.push("a.md", "written"), true);
+		await fireTimers();
+		assert.deepEqual(handled, ["a.md"]);
+	});
+
+	it("handles an edit that lands before the echo of its own write", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		queue.expectWrite("a.md", "written");
+		assert.equal(queue.push("a.md", "edited by the user"), true);
+
+		await fireTimers();
+		assert.deepEqual(handled, ["a.md"]);
+	});
+
+	it("handles files one at a time and requeues edits made meanwhile", async () => {
+		const order: string[] = [];
+		let running = 0;
+		let release: () => void = () => {};
+		const { queue, timers, fireTimers } = createQueue(async (path) => {
+			running++;
+			assert.equal(running, 1, "handlers never overlap");
+			order.push(`start ${path}`);
+			if (order.length === 1) await new Promise<void>((resolve) => (release = resolve));
+			order.push(`end ${path}`);
+			running--;
+		});
+
+		queue.push("a.md");
+		queue.push("b.md");
+		const callbacks = [...timers.values()];
+		timers.clear();
+		callbacks.forEach((callback) => callback());
+
+		// a.md changes again while it is being handled
+		queue.push("a.md");
+		release();
+		await fireTimers();
+
+		assert.deepEqual(order, ["start a.md", "end a.md", "start b.md", "end b.md", "start a.md", "end a.md"]);
+	});
+
+	it("keeps handling files after a handler fails", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			if (path === "broken.md") throw new Error("broken");
+			handled.push(path);
+		});
+
+		const error = console.error;
+		console.error = () => {};
+		try {
+			queue.push("broken.md");
+			queue.push("a.md");
+			await fireTimers();
+		} finally {
+			console.error = error;
+		}
+		assert.deepEqual(handled, ["a.md"]);
+	});
+
+	it("follows a file that is renamed while queued", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		queue.push("old.md");
+		queue.rename("old.md", "new.md");
+
+		await fireTimers();
+		assert.deepEqual(handled, ["new.md"]);
+	});
+
+	it("forgets pending files when cleared", async () => {
+		const handled: string[] = [];
+		const { queue, fireTimers } = createQueue(async (path) => {
+			handled.push(path);
+		});
+
+		queue.push("a.md");
+		queue.clear();
+
+		await fireTimers();
+		assert.deepEqual(handled, []);
+		assert.equal(queue.pending, 0);
+	});
+});
+
+describe("change events in the plugin", () => {
+	const book = "---\nauthor: \"\"\n---\n";
+
+	/**
+	 * Records every note the plugin handles a change of.
+	 */
+	function spyOnChanges(harness: Harness): string[] {
+		const handled: string[] = [];
+		const onMetadataChanged = harness.plugin.onMetadataChanged.bind(harness.plugin);
+		harness.plugin.onMetadataChanged = async (file) => {
+			handled.push(file.path);
+			await onMetadataChanged(file);
+		};
+		return handled;
+	}
+
+	it("does not handle the change event of its own write", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": "---\ntitle: Dune\n---\n" },
+			settings: { templateFolderPath: "Templates" },
+		});
+		const handled = spyOnChanges(harness);
+
+		await harness.write("Dune.md", "---\ntitle: Dune\ntags: [mt/book]\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").author, "", "the template was applied");
+		assert.deepEqual(handled, ["Dune.md"]);
+	});
+
+	it("handles a burst of edits to one note once, after the last edit", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": "---\ntitle: Dune\n---\n" },
+			settings: { templateFolderPath: "Templates" },
+		});
+		harness.plugin.syncQueue.delay = 20;
+		const handled = spyOnChanges(harness);
+		const file = harness.vault.getAbstractFileByPath("Dune.md") as any;
+
+		for (const tags of ["[mt/bo]", "[mt/boo]", "[mt/book]", "[mt/book, fic]", "[mt/book, fiction]"]) {
+			await harness.vault.modify(file, `---\ntitle: Dune\ntags: ${tags}\n---\n`);
+		}
+		await harness.settle();
+
+		assert.deepEqual(handled, ["Dune.md"]);
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			title: "Dune",
+			tags: ["mt/book", "fiction"],
+			author: "",
+		});
+		assert.equal(harness.plugin.journal.batches.length, 1);
+	});
+
+	it("handles quick edits to different notes", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": book,
+				"Dune.md": "---\ntitle: Dune\n---\n",
+				"Hyperion.md": "---\ntitle: Hyperion\n---\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+		harness.plugin.syncQueue.delay = 20;
+
+		for (const path of ["Dune.md", "Hyperion.md"]) {
+			const file = harness.vault.getAbstractFileByPath(path) as any;
+			await harness.vault.modify(file, harness.read(path).replace("---\n", "---\ntags: [mt/book]\n"));
+		}
+		await harness.settle();
+
+		assert.equal(harness.frontmatter("Dune.md").author, "");
+		assert.equal(harness.frontmatter("Hyperion.md").author, "");
+	});
+
+	it("reads template edits made by its own writes", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/media.md": "---\ntitle: \"\"\n---\n",
+				"Templates/source.md": "---\nurl: \"\"\n---\n",
+				"Templates/book.md": "---\nextends: media\nauthor: \"\"\n---\n",
+				"Dune.md": "---\ntags: [mt/book]\ntitle: Dune\nauthor: Herbert\n---\n",
+			},
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		// Renaming a template rewrites `extends` the same way
+		const template = harness.file("Templates/book.md");
+		const templateData = harness.frontmatter("Templates/book.md");
+		await harness.plugin.applyFrontmatterChanges(
+			[{ file: template, before: templateData, after: { ...templateData, extends: "source" } }],
+			"template-renamed",
+			"Rename mt/media to mt/source"
+		);
+		await harness.settle();
+		assert.equal(harness.frontmatter("Templates/book.md").extends, "source");
+
+		await harness.write("Templates/source.md", "---\nurl: \"\"\npublisher: \"\"\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").publisher, "");
+	});
+
+	it("reads tag changes made by its own writes", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": "---\ntitle: Dune\n---\n" },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.plugin.api.applyMetaTag(harness.file("Dune.md"), "book");
+		await harness.settle();
+		await harness.plugin.undoJournalBatch(harness.plugin.journal.getLastBatch()!);
+		await harness.settle();
+		assert.deepEqual(harness.frontmatter("Dune.md"), { title: "Dune" });
+
+		await harness.write("Dune.md", "---\ntitle: Dune\ntags: [mt/book]\n---\n");
+
+		assert.equal(harness.frontmatter("Dune.md").author, "", "the template is applied again");
+	});
+});
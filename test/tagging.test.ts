@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./harness/harness";
+
+const book = `---
+author: ""
+rating: 0
+finished: false
+---
+`;
+
+function note(frontmatter: string, body = "Some text\n") {
+	return `---\n${frontmatter}\n---\n${body}`;
+}
+
+describe("adding a MetaTag", () => {
+	it("applies the template when the tag is typed into a note", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": note("title: Dune") },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Dune.md", note("title: Dune\ntags: [mt/book]"));
+
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			title: "Dune",
+			tags: ["mt/book"],
+			author: "",
+			rating: 0,
+			finished: false,
+		});
+		assert.match(harness.read("Dune.md"), /\nSome text\n$/);
+	});
+
+	it("keeps values the note already has", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": note("rating: 5") },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Dune.md", note("rating: 5\ntags: mt/book"));
+
+		assert.equal(harness.frontmatter("Dune.md").rating, 5);
+		assert.equal(harness.frontmatter("Dune.md").author, "");
+	});
+
+	it("adds the tag and the properties in one write through the API", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": note("title: Dune") },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		const applied = await harness.plugin.api.applyMetaTag(harness.file("Dune.md"), "book");
+		await harness.settle();
+
+		assert.equal(applied, true);
+		assert.deepEqual(harness.frontmatter("Dune.md").tags, ["mt/book"]);
+		assert.equal(harness.frontmatter("Dune.md").finished, false);
+		assert.equal(
+			await harness.plugin.api.applyMetaTag(harness.file("Dune.md"), "book"),
+			false,
+			"a MetaTag is only applied once"
+		);
+	});
+
+	it("applies the template for an inline tag by default", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": note("title: Dune") },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Dune.md", note("title: Dune", "Some text #mt/book\n"));
+
+		assert.equal(harness.frontmatter("Dune.md").author, "");
+		assert.equal(harness.frontmatter("Dune.md").tags, undefined, "the tag stays inline");
+	});
+
+	it("ignores tags outside the tag base", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": note("title: Dune") },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Dune.md", note("title: Dune\ntags: [fiction, book]"));
+
+		assert.deepEqual(Object.keys(harness.frontmatter("Dune.md")), ["title", "tags"]);
+	});
+});
+
+describe("removing a MetaTag", () => {
+	const tagged = note("tags: [mt/book]\nauthor: Herbert\nrating: 0\nfinished: false");
+
+	it("removes the empty template properties when enabled", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": tagged },
+			settings: { templateFolderPath: "Templates", deleteEmptyMetatagProperties: true },
+		});
+
+		await harness.write("Dune.md", note("tags: []\nauthor: Herbert\nrating: 0\nfinished: false"));
+
+		// Zero is a value; an unchecked checkbox is the template default
+		assert.deepEqual(harness.frontmatter("Dune.md"), { tags: [], author: "Herbert", rating: 0 });
+	});
+
+	it("leaves the properties alone when disabled", async () => {
+		const harness = await createHarness({
+			files: { "Templates/book.md": book, "Dune.md": tagged },
+			settings: { templateFolderPath: "Templates" },
+		});
+
+		await harness.write("Dune.md", note("tags: []\nauthor: Herbert\nrating: 0\nfinished: false"));
+
+		assert.deepEqual(Object.keys(harness.frontmatter("Dune.md")), [
+			"tags",
+			"author",
+			"rating",
+			"finished",
+		]);
+	});
+
+	it("removes the tag and the empty properties in one write through the API", async () => {
+		const harness = await createHarness({
+			files: {
+				"Templates/book.md": book,
+				"Dune.md": note("tags: [fiction, mt/book]\nauthor: \"\"\nrating: 3\nfinished: true"),
+			},
+			settings: { templateFolderPath: "Templates", deleteEmptyMetatagProperties: true },
+		});
+
+		const removed = await harness.plugin.api.removeMetaTag(harness.file("Dune.md"), "book");
+		await harness.settle();
+
+		assert.equal(removed, true);
+		assert.deepEqual(harness.frontmatter("Dune.md"), {
+			tags: ["fiction"],
+			rating: 3,
+			finished: true,
+		});
+	});
+});
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BundleParseError, parseBundle } from "../src/templateBundle";
+
+function bundle(settings: unknown): string {
+	return JSON.stringify({ version: 1, settings, templates: [{ name: "book", content: "---\n---\n" }] });
+}
+
+describe("parseBundle", () => {
+	it("keeps the known settings and drops the rest", () => {
+		const parsed = parseBundle(
+			bundle({
+				tagBase: "mt",
+				templatePriority: ["book"],
+				inheritFolderTemplates: true,
+				templateOnlyKeys: [],
+				templateFolderPath: "Templates",
+			})
+		);
+
+		assert.deepEqual(parsed.settings, {
+			tagBase: "mt",
+			templatePriority: ["book"],
+			inheritFolderTemplates: true,
+			templateOnlyKeys: [],
+		});
+	});
+
+	it("reads a bundle without settings", () => {
+		assert.deepEqual(parseBundle(bundle(undefined)).settings, {});
+	});
+
+	it("rejects settings of the wrong type", () => {
+		for (const settings of [
+			{ templateOnlyKeys: "cssclasses" },
+			{ templatePriority: ["book", 2] },
+			{ deleteEmptyMetatagProperties: "yes" },
+			{ tagBase: "" },
+			["tagBase"],
+		]) {
+			assert.throws(() => parseBundle(bundle(settings)), BundleParseError, JSON.stringify(settings));
+		}
+	});
+});